@@ -0,0 +1,188 @@
+// Reference sync server for the task app: a small REST API that keeps tasks in a JSON file.
+//
+//   npm run server                       listens on http://localhost:3001/api
+//   PORT=4000 DATA_FILE=./tasks.json npm run server
+//
+// Every write bumps a global revision and stamps it on the task it wrote; that revision is the
+// task's ETag. Updates and deletes must send it back in If-Match, so a client working from a stale
+// copy gets 412 Precondition Failed (with the current copy) instead of overwriting someone else.
+import { createServer } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DATA_FILE = process.env.DATA_FILE
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'tasks.json');
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag'
+};
+
+// { revision, tasks: { [id]: { task, revision } } }
+let state = { revision: 0, tasks: {} };
+
+class HttpError extends Error {
+  constructor(status, message, body = {}) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const loadState = async () => {
+  try {
+    state = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+};
+
+// Writes are queued and go through a temporary file, so a crash never leaves half a file behind
+let pendingWrite = Promise.resolve();
+const saveState = () => {
+  const snapshot = JSON.stringify(state, null, 2);
+  pendingWrite = pendingWrite.catch(() => {}).then(async () => {
+    await mkdir(path.dirname(DATA_FILE), { recursive: true });
+    await writeFile(`${DATA_FILE}.tmp`, snapshot);
+    await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+  });
+  return pendingWrite;
+};
+
+const toEtag = revision => `"${revision}"`;
+
+const parseEtag = header => {
+  const match = /^(?:W\/)?"(\d+)"$/.exec((header || '').trim());
+  return match ? Number(match[1]) : null;
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    ...headers
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body is too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// The app validates tasks fully; the server only insists on what it needs to store them
+const readTask = async req => {
+  const task = await readBody(req);
+  if (!task || typeof task !== 'object' || Array.isArray(task) || typeof task.id !== 'string' || !task.id
+    || typeof task.title !== 'string') {
+    throw new HttpError(400, 'Expected a task with a string id and title');
+  }
+  return task;
+};
+
+const getStoredTask = id => {
+  const stored = state.tasks[id];
+  if (!stored) throw new HttpError(404, `Task ${id} not found`);
+  return stored;
+};
+
+// Updates and deletes only apply to the version the client last saw
+const checkPrecondition = (req, stored) => {
+  if (!req.headers['if-match']) throw new HttpError(428, 'If-Match header is required');
+  if (parseEtag(req.headers['if-match']) !== stored.revision) {
+    throw new HttpError(412, 'Task was changed since it was read', { current: stored });
+  }
+};
+
+const writeTask = async (task) => {
+  state.revision += 1;
+  state.tasks[task.id] = { task, revision: state.revision };
+  await saveState();
+  return state.tasks[task.id];
+};
+
+const decodeId = rawId => {
+  try {
+    return decodeURIComponent(rawId);
+  } catch {
+    throw new HttpError(400, 'Task id in the URL is not validly encoded');
+  }
+};
+
+const handleRequest = async (req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const [, api, collection, rawId, ...rest] = pathname.split('/');
+  if (api !== 'api' || collection !== 'tasks' || rest.length > 0) throw new HttpError(404, 'Not found');
+  const id = rawId ? decodeId(rawId) : null;
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+  } else if (req.method === 'GET' && !id) {
+    if (parseEtag(req.headers['if-none-match']) === state.revision) {
+      send(res, 304, undefined, { ETag: toEtag(state.revision) });
+      return;
+    }
+    send(res, 200, { revision: state.revision, tasks: Object.values(state.tasks) }, { ETag: toEtag(state.revision) });
+  } else if (req.method === 'GET') {
+    const stored = getStoredTask(id);
+    send(res, 200, stored, { ETag: toEtag(stored.revision) });
+  } else if (req.method === 'POST' && !id) {
+    const task = await readTask(req);
+    if (state.tasks[task.id]) {
+      throw new HttpError(409, `Task ${task.id} already exists`, { current: state.tasks[task.id] });
+    }
+    const stored = await writeTask(task);
+    send(res, 201, stored, { ETag: toEtag(stored.revision) });
+  } else if (req.method === 'PUT' && id) {
+    const task = await readTask(req);
+    if (task.id !== id) throw new HttpError(400, 'Task id does not match the URL');
+    checkPrecondition(req, getStoredTask(id));
+    const stored = await writeTask(task);
+    send(res, 200, stored, { ETag: toEtag(stored.revision) });
+  } else if (req.method === 'DELETE' && id) {
+    checkPrecondition(req, getStoredTask(id));
+    state.revision += 1;
+    delete state.tasks[id];
+    await saveState();
+    send(res, 200, { revision: state.revision });
+  } else {
+    throw new HttpError(405, 'Method not allowed');
+  }
+};
+
+await loadState();
+
+createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    if (error instanceof HttpError) {
+      send(res, error.status, { error: error.message, ...error.body });
+    } else {
+      console.error(error);
+      send(res, 500, { error: 'Internal server error' });
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Task sync server listening on http://localhost:${PORT}/api (data in ${DATA_FILE})`);
+});
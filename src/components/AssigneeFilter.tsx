@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { UserRound } from "lucide-react";
+import { AssignmentFilter } from "@/lib/people";
+
+interface AssigneeFilterProps {
+  value: AssignmentFilter;
+  hasCurrentPerson: boolean;
+  onChange: (value: AssignmentFilter) => void;
+}
+
+const FILTER_LABELS: Record<AssignmentFilter, string> = {
+  all: 'Everyone',
+  me: 'Assigned to me',
+  unassigned: 'Unassigned'
+};
+
+export const AssigneeFilter = ({ value, hasCurrentPerson, onChange }: AssigneeFilterProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant={value !== 'all' ? 'secondary' : 'outline'}
+        size="sm"
+        className="h-10 shrink-0 transition-all duration-200 hover:border-primary/50"
+        aria-label="Filter by assignee"
+      >
+        <UserRound className="w-4 h-4 sm:mr-2" />
+        <span className="hidden sm:inline">{value === 'all' ? 'People' : FILTER_LABELS[value]}</span>
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-56">
+      <DropdownMenuLabel>Show tasks for</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      <DropdownMenuRadioGroup value={value} onValueChange={(filter) => onChange(filter as AssignmentFilter)}>
+        <DropdownMenuRadioItem value="all">{FILTER_LABELS.all}</DropdownMenuRadioItem>
+        <DropdownMenuRadioItem value="me" disabled={!hasCurrentPerson}>
+          {FILTER_LABELS.me}
+        </DropdownMenuRadioItem>
+        <DropdownMenuRadioItem value="unassigned">{FILTER_LABELS.unassigned}</DropdownMenuRadioItem>
+      </DropdownMenuRadioGroup>
+      {!hasCurrentPerson && (
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">
+          Pick who you are under People in the sidebar to use "Assigned to me".
+        </p>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
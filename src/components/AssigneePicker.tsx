@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { Check, UserPlus, X } from "lucide-react";
+import { PersonAvatar } from "@/components/PersonAvatar";
+import { Person } from "@/types/Person";
+
+interface AssigneePickerProps {
+  people: Person[];
+  selectedIds: string[];
+  onChange: (assigneeIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export const AssigneePicker = ({ people, selectedIds, onChange, disabled }: AssigneePickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const assignees = selectedIds
+    .map(personId => people.find(person => person.id === personId))
+    .filter(Boolean);
+
+  const toggle = (personId: string) => onChange(
+    selectedIds.includes(personId)
+      ? selectedIds.filter(id => id !== personId)
+      : [...selectedIds, personId]
+  );
+
+  return (
+    <div className="space-y-2">
+      {assignees.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {assignees.map(person => (
+            <li
+              key={person.id}
+              className="inline-flex items-center gap-1.5 pl-0.5 pr-2 py-0.5 rounded-full border border-border
+                bg-muted/50 text-xs animate-in fade-in-0 zoom-in-95 duration-200"
+            >
+              <PersonAvatar person={person} className="h-5 w-5 text-[9px]" />
+              <span className="truncate">{person.name}</span>
+              <button
+                type="button"
+                onClick={() => toggle(person.id)}
+                disabled={disabled}
+                className="rounded-full hover:bg-black/10 transition-colors"
+                aria-label={`Unassign ${person.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id="assignees"
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={disabled || people.length === 0}
+            className="transition-all duration-200 hover:border-primary/50"
+          >
+            <UserPlus className="w-4 h-4 mr-2" />
+            {people.length === 0 ? 'Add people in the sidebar first' : 'Assign people'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search people..." />
+            <CommandList>
+              <CommandEmpty>No matching people.</CommandEmpty>
+              <CommandGroup>
+                {people.map(person => (
+                  <CommandItem
+                    key={person.id}
+                    value={`${person.name} ${person.id}`}
+                    // Stay open so several people can be assigned in a row
+                    onSelect={() => toggle(person.id)}
+                    className="flex items-center gap-2"
+                  >
+                    <PersonAvatar person={person} />
+                    <span className="flex-1 truncate">{person.name}</span>
+                    {selectedIds.includes(person.id) && <Check className="w-4 h-4" />}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Paperclip, Upload, X } from "lucide-react";
+import { AttachmentRef } from "@/types/Task";
+import { AttachmentThumbnail } from "@/components/AttachmentThumbnail";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  isAcceptedAttachment,
+  saveAttachmentFile
+} from "@/lib/attachments";
+
+interface AttachmentDropzoneProps {
+  attachments: AttachmentRef[];
+  onChange: (attachments: AttachmentRef[]) => void;
+  disabled?: boolean;
+}
+
+// Files are written to IndexedDB as soon as they're dropped; unsaved ones are cleaned up later
+export const AttachmentDropzone = ({ attachments, onChange, disabled }: AttachmentDropzoneProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0 || disabled) return;
+    const rejected = files.find(file => !isAcceptedAttachment(file) || file.size > MAX_ATTACHMENT_SIZE);
+    setError(rejected
+      ? `"${rejected.name}" was skipped: only images and PDFs up to ${formatFileSize(MAX_ATTACHMENT_SIZE)} can be attached`
+      : ''
+    );
+
+    const accepted = files.filter(file => isAcceptedAttachment(file) && file.size <= MAX_ATTACHMENT_SIZE);
+    if (accepted.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await Promise.all(accepted.map(saveAttachmentFile));
+      onChange([...attachments, ...saved]);
+    } catch {
+      setError('Could not store the files in this browser');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-4
+          text-sm text-muted-foreground transition-colors duration-200
+          ${isDragging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'}`}
+      >
+        <Upload className={`w-5 h-5 ${isSaving ? 'animate-pulse' : ''}`} />
+        <span>{isSaving ? 'Saving files...' : 'Drop screenshots or PDFs here'}</span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || isSaving}
+        >
+          <Paperclip className="w-4 h-4 mr-2" />
+          Choose files
+        </Button>
+        <input
+          ref={inputRef}
+          id="attachments"
+          type="file"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES}
+          onChange={(e) => {
+            handleFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="sr-only"
+          tabIndex={-1}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {attachments.length > 0 && (
+        <ul className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="relative animate-in fade-in-0 zoom-in-95 duration-200">
+              <AttachmentThumbnail attachment={attachment} />
+              <button
+                type="button"
+                onClick={() => onChange(attachments.filter(a => a.id !== attachment.id))}
+                disabled={disabled}
+                className="absolute -top-1.5 -right-1.5 rounded-full border border-border bg-background p-0.5
+                  shadow-sm hover:bg-muted transition-colors"
+                aria-label={`Remove attachment "${attachment.name}"`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
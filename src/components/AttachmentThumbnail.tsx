@@ -0,0 +1,43 @@
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { FileText, ImageOff } from "lucide-react";
+import { AttachmentRef } from "@/types/Task";
+import { formatFileSize, isImageAttachment } from "@/lib/attachments";
+import { useAttachmentUrl } from "@/hooks/useAttachmentUrl";
+
+interface AttachmentThumbnailProps {
+  attachment: AttachmentRef;
+  className?: string;
+}
+
+// Opens the stored file in a new tab; images preview inline, other files show an icon
+export const AttachmentThumbnail = ({ attachment, className = '' }: AttachmentThumbnailProps) => {
+  const { url, isMissing } = useAttachmentUrl(attachment.id);
+  const label = `${attachment.name} (${formatFileSize(attachment.size)})`;
+
+  return (
+    <a
+      href={url || undefined}
+      target="_blank"
+      rel="noreferrer"
+      title={isMissing ? `${attachment.name} is no longer available` : label}
+      aria-label={label}
+      className={`block overflow-hidden rounded-md border border-border/50 bg-muted/40
+        transition-all duration-200 hover:border-primary/50 ${className}`}
+    >
+      <AspectRatio ratio={4 / 3}>
+        {isMissing ? (
+          <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+            <ImageOff className="w-5 h-5" />
+          </div>
+        ) : isImageAttachment(attachment) ? (
+          url && <img src={url} alt={attachment.name} className="h-full w-full object-cover" />
+        ) : (
+          <div className="flex h-full w-full flex-col items-center justify-center gap-1 p-1 text-muted-foreground">
+            <FileText className="w-5 h-5 shrink-0" />
+            <span className="w-full truncate text-center text-[10px]">{attachment.name}</span>
+          </div>
+        )}
+      </AspectRatio>
+    </a>
+  );
+};
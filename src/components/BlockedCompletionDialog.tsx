@@ -0,0 +1,40 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Task } from "@/types/Task";
+
+interface BlockedCompletionDialogProps {
+  task: Task | null;
+  openBlockers: Task[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const BlockedCompletionDialog = ({ task, openBlockers, onConfirm, onCancel }: BlockedCompletionDialogProps) => (
+  <AlertDialog open={!!task} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Complete a blocked task?</AlertDialogTitle>
+        <AlertDialogDescription>
+          "{task?.title}" is still waiting on {openBlockers.length === 1 ? 'this task' : 'these tasks'}:
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <ul className="list-disc pl-6 text-sm space-y-1">
+        {openBlockers.map(blocker => (
+          <li key={blocker.id}>{blocker.title}</li>
+        ))}
+      </ul>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={onCancel}>Keep open</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>Complete anyway</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { Link2, X } from "lucide-react";
+import { Task } from "@/types/Task";
+import { isTaskDone } from "@/lib/status";
+import { wouldCreateCycle } from "@/lib/dependencies";
+
+interface BlockerPickerProps {
+  taskId?: string;
+  tasks: Task[];
+  selectedIds: string[];
+  onChange: (blockerIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export const BlockerPicker = ({ taskId, tasks, selectedIds, onChange, disabled }: BlockerPickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Check cycles against the links being edited, not the ones last saved
+  const tasksWithDraft = taskId
+    ? tasks.map(task => task.id === taskId ? { ...task, blockedBy: selectedIds } : task)
+    : tasks;
+  const selectedTasks = selectedIds
+    .map(blockerId => tasks.find(task => task.id === blockerId))
+    .filter(Boolean);
+  const candidates = tasks.filter(task => task.id !== taskId && !selectedIds.includes(task.id));
+
+  return (
+    <div className="space-y-2">
+      {selectedTasks.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {selectedTasks.map(blocker => (
+            <li
+              key={blocker.id}
+              className="inline-flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full border border-border
+                bg-muted/50 text-xs animate-in fade-in-0 zoom-in-95 duration-200"
+            >
+              <span className={`truncate ${isTaskDone(blocker) ? 'line-through text-muted-foreground' : ''}`}>
+                {blocker.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(selectedIds.filter(blockerId => blockerId !== blocker.id))}
+                disabled={disabled}
+                className="rounded-full hover:bg-black/10 transition-colors"
+                aria-label={`Remove blocker "${blocker.title}"`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id="blockedBy"
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={disabled || candidates.length === 0}
+            className="transition-all duration-200 hover:border-primary/50"
+          >
+            <Link2 className="w-4 h-4 mr-2" />
+            Add blocking task
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search tasks..." />
+            <CommandList>
+              <CommandEmpty>No matching tasks.</CommandEmpty>
+              <CommandGroup>
+                {candidates.map(candidate => {
+                  const createsCycle = !!taskId && wouldCreateCycle(tasksWithDraft, taskId, candidate.id);
+                  return (
+                    <CommandItem
+                      key={candidate.id}
+                      value={`${candidate.title} ${candidate.id}`}
+                      disabled={createsCycle}
+                      onSelect={() => {
+                        onChange([...selectedIds, candidate.id]);
+                        setIsOpen(false);
+                      }}
+                      className="flex items-center justify-between gap-2"
+                    >
+                      <span className={`truncate ${isTaskDone(candidate) ? 'line-through' : ''}`}>
+                        {candidate.title}
+                      </span>
+                      {createsCycle && (
+                        <span className="shrink-0 text-xs text-muted-foreground">would create a cycle</span>
+                      )}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronUp, ChevronDown, Trash2, Plus } from "lucide-react";
+import { ChecklistItem } from "@/types/Task";
+import {
+  createChecklistItem,
+  getChecklistProgress,
+  isChecklistComplete,
+  moveChecklistItem,
+  toggleChecklistItem
+} from "@/lib/checklist";
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  onAllCompleted?: () => void;
+  disabled?: boolean;
+}
+
+export const ChecklistEditor = ({ items, onChange, onAllCompleted, disabled }: ChecklistEditorProps) => {
+  const [newItemText, setNewItemText] = useState('');
+  const { completed, total } = getChecklistProgress(items);
+
+  const handleAddItem = () => {
+    if (!newItemText.trim()) return;
+    onChange([...items, createChecklistItem(newItemText)]);
+    setNewItemText('');
+  };
+
+  const handleToggleItem = (itemId: string) => {
+    const updatedItems = toggleChecklistItem(items, itemId);
+    onChange(updatedItems);
+    if (!isChecklistComplete(items) && isChecklistComplete(updatedItems)) {
+      onAllCompleted?.();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {total > 0 && (
+        <ul className="space-y-1.5" aria-label={`Checklist, ${completed} of ${total} done`}>
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              className="group flex items-center gap-2 rounded-md border border-border/50 px-2 py-1.5
+                animate-in fade-in-0 duration-200"
+            >
+              <Checkbox
+                checked={item.isCompleted}
+                onCheckedChange={() => handleToggleItem(item.id)}
+                disabled={disabled}
+                aria-label={`Mark "${item.text}" as ${item.isCompleted ? 'not done' : 'done'}`}
+              />
+              <span className={`flex-1 text-sm break-words ${item.isCompleted ? 'line-through text-muted-foreground' : ''}`}>
+                {item.text}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => onChange(moveChecklistItem(items, item.id, -1))}
+                disabled={disabled || index === 0}
+                aria-label={`Move "${item.text}" up`}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => onChange(moveChecklistItem(items, item.id, 1))}
+                disabled={disabled || index === items.length - 1}
+                aria-label={`Move "${item.text}" down`}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                disabled={disabled}
+                aria-label={`Delete "${item.text}"`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          id="checklist"
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds an item instead of submitting the whole form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddItem();
+            }
+          }}
+          placeholder="Add a checklist item..."
+          disabled={disabled}
+          maxLength={200}
+          className="transition-all duration-200 focus:border-primary hover:border-primary/50"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAddItem}
+          disabled={disabled || !newItemText.trim()}
+          aria-label="Add checklist item"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from "@/components/ui/sheet";
+import { MessageSquare, Pencil, Send, Trash2 } from "lucide-react";
+import { TaskComment } from "@/types/Task";
+import { Person } from "@/types/Person";
+import { createComment, deleteComment, describeAuthor, editComment, isOwnComment } from "@/lib/comments";
+
+interface CommentThreadProps {
+  taskTitle: string;
+  comments: TaskComment[];
+  // Who is writing; only their own comments can be edited or deleted
+  authorId: string;
+  people: Person[];
+  onChange: (comments: TaskComment[]) => void;
+}
+
+const formatTimestamp = (timestamp: number) => formatDistanceToNow(timestamp, { addSuffix: true });
+
+export const CommentThread = ({ taskTitle, comments, authorId, people, onChange }: CommentThreadProps) => {
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onChange([...comments, createComment(draft, authorId)]);
+    setDraft('');
+  };
+
+  const handleSaveEdit = () => {
+    if (editingId && editDraft.trim()) {
+      onChange(editComment(comments, editingId, editDraft, authorId));
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 sm:px-2 transition-all duration-200 hover:scale-105
+            group-hover:opacity-100 opacity-70 focus:opacity-100"
+          aria-label={`Comments on "${taskTitle}" (${comments.length})`}
+        >
+          <MessageSquare className="w-3 h-3 sm:w-4 sm:h-4" />
+          {comments.length > 0 && <span className="ml-1 text-xs">{comments.length}</span>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Comments</SheetTitle>
+          <SheetDescription className="truncate">{taskTitle}</SheetDescription>
+        </SheetHeader>
+
+        <ol className="flex-1 space-y-3 overflow-auto pr-1" aria-label="Comment thread">
+          {comments.length === 0 && (
+            <li className="py-8 text-center text-sm text-muted-foreground">
+              No comments yet. Add context, decisions or links here.
+            </li>
+          )}
+          {comments.map(comment => (
+            <li
+              key={comment.id}
+              className="group/comment rounded-md border border-border/50 p-3 space-y-1 animate-in fade-in-0 duration-200"
+            >
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{describeAuthor(comment.authorId, authorId, people)}</span>
+                <time dateTime={new Date(comment.createdAt).toISOString()} title={new Date(comment.createdAt).toLocaleString()}>
+                  {formatTimestamp(comment.createdAt)}
+                </time>
+                {comment.editedAt && <span title={new Date(comment.editedAt).toLocaleString()}>(edited)</span>}
+                {isOwnComment(comment, authorId) && editingId !== comment.id && (
+                  <span className="ml-auto flex gap-1 opacity-0 group-hover/comment:opacity-100 focus-within:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditDraft(comment.text);
+                      }}
+                      className="h-6 w-6 p-0"
+                      aria-label="Edit comment"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(deleteComment(comments, comment.id, authorId))}
+                      className="h-6 w-6 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      aria-label="Delete comment"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </span>
+                )}
+              </div>
+              {editingId === comment.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    autoFocus
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                        handleSaveEdit();
+                      } else if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setEditingId(null);
+                      }
+                    }}
+                    rows={3}
+                    maxLength={1000}
+                    aria-label="Edit comment"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                    <Button size="sm" onClick={handleSaveEdit} disabled={!editDraft.trim()}>Save</Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">{comment.text}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <div className="space-y-2 border-t border-border/50 pt-3">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Write a comment... (Ctrl+Enter to send)"
+            rows={3}
+            maxLength={1000}
+            aria-label="New comment"
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleAdd} disabled={!draft.trim()}>
+              <Send className="w-4 h-4 mr-2" />
+              Comment
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
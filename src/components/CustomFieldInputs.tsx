@@ -0,0 +1,95 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from "@/types/CustomField";
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  disabled?: boolean;
+}
+
+const NO_OPTION = '__none';
+
+export const CustomFieldInputs = ({ fields, values, onChange, disabled }: CustomFieldInputsProps) => {
+  const update = (fieldId: string, value: CustomFieldValue) => onChange({ ...values, [fieldId]: value });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map(field => {
+        const inputId = `custom-${field.id}`;
+        const value = values[field.id];
+
+        if (field.type === 'checkbox') {
+          return (
+            <div key={field.id} className="flex items-center gap-2 sm:pt-8">
+              <Checkbox
+                id={inputId}
+                checked={value === true}
+                onCheckedChange={(checked) => update(field.id, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={inputId} className="text-sm font-medium">{field.name}</Label>
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.id} className={`space-y-2 ${field.type === 'multi-select' ? 'sm:col-span-2' : ''}`}>
+            <Label htmlFor={inputId} className="text-sm font-medium">{field.name}</Label>
+            {field.type === 'single-select' ? (
+              <Select
+                value={(value as string) || NO_OPTION}
+                onValueChange={(option) => update(field.id, option === NO_OPTION ? '' : option)}
+                disabled={disabled}
+              >
+                <SelectTrigger id={inputId} className="transition-all duration-200 hover:border-primary/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OPTION}>None</SelectItem>
+                  {field.options?.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : field.type === 'multi-select' ? (
+              <ToggleGroup
+                id={inputId}
+                type="multiple"
+                value={Array.isArray(value) ? value : []}
+                onValueChange={(options) => update(field.id, options)}
+                disabled={disabled}
+                className="flex-wrap justify-start"
+                aria-label={field.name}
+              >
+                {field.options?.map(option => (
+                  <ToggleGroupItem key={option} value={option} size="sm" variant="outline">
+                    {option}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            ) : (
+              <Input
+                id={inputId}
+                type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                step={field.type === 'number' ? 'any' : undefined}
+                value={value === undefined ? '' : String(value)}
+                onChange={(e) => update(
+                  field.id,
+                  field.type === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value
+                )}
+                disabled={disabled}
+                maxLength={field.type === 'text' ? 200 : undefined}
+                className="transition-all duration-200 focus:border-primary hover:border-primary/50"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
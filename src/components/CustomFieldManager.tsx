@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { CustomFieldDefinition, CustomFieldType } from "@/types/CustomField";
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  findCustomFieldByName,
+  isSelectField,
+  parseFieldOptions
+} from "@/lib/customFields";
+
+interface CustomFieldManagerProps {
+  fields: CustomFieldDefinition[];
+  usageCounts: Record<string, number>;
+  onCreateField: (name: string, type: CustomFieldType, options: string[]) => void;
+  onUpdateField: (field: CustomFieldDefinition) => void;
+  onDeleteField: (id: string) => void;
+}
+
+export const CustomFieldManager = ({
+  fields,
+  usageCounts,
+  onCreateField,
+  onUpdateField,
+  onDeleteField
+}: CustomFieldManagerProps) => {
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState('');
+  const [error, setError] = useState('');
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    if (findCustomFieldByName(fields, newName)) {
+      setError(`A field named "${newName.trim()}" already exists`);
+      return;
+    }
+    const options = parseFieldOptions(newOptions);
+    if ((newType === 'single-select' || newType === 'multi-select') && options.length === 0) {
+      setError('Select fields need at least one option');
+      return;
+    }
+    onCreateField(newName, newType, options);
+    setNewName('');
+    setNewOptions('');
+    setError('');
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" aria-label="Configure custom fields">
+          <SlidersHorizontal className="w-3 h-3 mr-1" />
+          Fields
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Custom Fields</DialogTitle>
+          <DialogDescription>
+            Extra fields appear in the task form and on cards, and can be searched and sorted by.
+            Deleting a field removes its values from every task.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-3 max-h-[50vh] overflow-auto pr-1">
+          {fields.length === 0 && (
+            <li className="text-sm text-muted-foreground">No custom fields yet.</li>
+          )}
+          {fields.map(field => (
+            <li key={field.id} className="space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Input
+                  defaultValue={field.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    const duplicate = findCustomFieldByName(fields, name);
+                    if (!name || (duplicate && duplicate.id !== field.id)) {
+                      e.target.value = field.name;
+                    } else if (name !== field.name) {
+                      onUpdateField({ ...field, name });
+                    }
+                  }}
+                  maxLength={30}
+                  className="h-8"
+                  aria-label={`Rename field "${field.name}"`}
+                />
+                <span className="w-24 shrink-0 text-xs text-muted-foreground">
+                  {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+                </span>
+                <span className="w-14 shrink-0 text-right text-xs text-muted-foreground">
+                  {usageCounts[field.id] || 0} task{usageCounts[field.id] === 1 ? '' : 's'}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDeleteField(field.id)}
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  aria-label={`Delete field "${field.name}"`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {isSelectField(field) && (
+                <Input
+                  defaultValue={field.options?.join(', ')}
+                  onBlur={(e) => {
+                    const options = parseFieldOptions(e.target.value);
+                    if (options.length === 0) {
+                      e.target.value = field.options?.join(', ') || '';
+                    } else if (options.join() !== field.options?.join()) {
+                      onUpdateField({ ...field, options });
+                    }
+                  }}
+                  className="h-8 text-xs"
+                  aria-label={`Options for "${field.name}", separated by commas`}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-2 border-t border-border/50 pt-3">
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="New field, e.g. Client"
+              maxLength={30}
+            />
+            <Select value={newType} onValueChange={(type: CustomFieldType) => setNewType(type)}>
+              <SelectTrigger className="w-40" aria-label="Field type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CUSTOM_FIELD_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleCreate} disabled={!newName.trim()} aria-label="Add field">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+          {(newType === 'single-select' || newType === 'multi-select') && (
+            <Input
+              value={newOptions}
+              onChange={(e) => {
+                setNewOptions(e.target.value);
+                setError('');
+              }}
+              placeholder="Options, separated by commas"
+              className="animate-in slide-in-from-top-2 duration-200"
+            />
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
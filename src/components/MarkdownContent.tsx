@@ -0,0 +1,127 @@
+import { Fragment } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TaskMentionLink } from "@/components/TaskMentionLink";
+import { Task } from "@/types/Task";
+import { StatusDefinition } from "@/types/Status";
+import { PriorityLevel } from "@/types/Priority";
+import { MarkdownBlock, MarkdownInline, getInlinePlainText, parseMarkdown } from "@/lib/markdown";
+
+interface MarkdownContentProps {
+  text: string;
+  tasks: Task[];
+  statuses: StatusDefinition[];
+  priorities: PriorityLevel[];
+  onOpenTask?: (taskId: string) => void;
+  // Task list checkboxes are read-only without this
+  onToggleTaskItem?: (line: number) => void;
+  className?: string;
+}
+
+// Renders the Markdown subset from lib/markdown as React elements, so no raw HTML reaches the page
+export const MarkdownContent = ({
+  text,
+  tasks,
+  statuses,
+  priorities,
+  onOpenTask,
+  onToggleTaskItem,
+  className
+}: MarkdownContentProps) => {
+  const renderInline = (nodes: MarkdownInline[]) => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'strong':
+        return <strong key={index} className="font-semibold text-foreground">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{node.text}</code>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 hover:text-primary/80 break-words"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'mention':
+        return (
+          <TaskMentionLink
+            key={index}
+            task={tasks.find(task => task.id === node.taskId)}
+            label={node.label}
+            statuses={statuses}
+            priorities={priorities}
+            onOpen={onOpenTask}
+          />
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+  const renderBlocks = (blocks: MarkdownBlock[]) => blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = (['h3', 'h4', 'h5'] as const)[block.level - 1];
+        return (
+          <Heading key={index} className={`font-semibold text-foreground ${block.level === 1 ? 'text-base' : 'text-sm'}`}>
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List
+            key={index}
+            start={block.ordered ? block.start : undefined}
+            className={`space-y-1 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+          >
+            {block.items.map(item => item.checked === undefined ? (
+              <li key={item.line}>{renderInline(item.children)}</li>
+            ) : (
+              <li key={item.line} className="-ml-5 flex list-none items-start gap-2">
+                <Checkbox
+                  checked={item.checked}
+                  onCheckedChange={() => onToggleTaskItem?.(item.line)}
+                  disabled={!onToggleTaskItem}
+                  className="mt-0.5 disabled:cursor-default disabled:opacity-100"
+                  aria-label={`Mark "${getInlinePlainText(item.children)}" as ${item.checked ? 'not done' : 'done'}`}
+                />
+                <span className={item.checked ? 'line-through opacity-70' : ''}>
+                  {renderInline(item.children)}
+                </span>
+              </li>
+            ))}
+          </List>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={index} className="space-y-2 border-l-2 border-border pl-3 italic">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'code':
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-muted p-2 font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={index} className="border-border" />;
+    }
+  });
+
+  return <div className={`space-y-2 break-words ${className || ''}`}>{renderBlocks(parseMarkdown(text))}</div>;
+};
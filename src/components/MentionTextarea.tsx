@@ -0,0 +1,117 @@
+import { useRef, useState } from "react";
+import { Textarea, type TextareaProps } from "@/components/ui/textarea";
+import { Hash } from "lucide-react";
+import { Task } from "@/types/Task";
+import { isTaskDone } from "@/lib/status";
+import { createMention, findMentionSuggestions, getMentionQuery } from "@/lib/mentions";
+
+interface MentionTextareaProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  tasks: Task[];
+  // The task being edited, which can't mention itself
+  excludeTaskId?: string;
+}
+
+// Textarea that suggests tasks after a "#" and inserts them as mentions
+export const MentionTextarea = ({
+  value,
+  onChange,
+  tasks,
+  excludeTaskId,
+  maxLength,
+  ...textareaProps
+}: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const suggestions = mention ? findMentionSuggestions(tasks, mention.query, excludeTaskId) : [];
+  const isOpen = suggestions.length > 0;
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret));
+    setActiveIndex(0);
+  };
+
+  const insertMention = (task: Task) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+    const inserted = `${createMention(task)} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(textarea.selectionStart);
+    if (maxLength && next.length > maxLength) return;
+
+    onChange(next);
+    setMention(null);
+    const caret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...textareaProps}
+        ref={textareaRef}
+        value={value}
+        maxLength={maxLength}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        onKeyDown={(e) => {
+          if (!isOpen) return;
+          if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const offset = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((activeIndex + offset + suggestions.length) % suggestions.length);
+          } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            insertMention(suggestions[activeIndex]);
+          } else if (e.key === 'Escape') {
+            // Only close the suggestions, not the surrounding form
+            e.preventDefault();
+            e.stopPropagation();
+            setMention(null);
+          }
+        }}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? 'mention-suggestions' : undefined}
+        aria-activedescendant={isOpen ? `mention-${suggestions[activeIndex].id}` : undefined}
+      />
+      {isOpen && (
+        <ul
+          id="mention-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-60 overflow-auto rounded-md border
+            bg-popover p-1 text-popover-foreground shadow-md animate-in fade-in-0 zoom-in-95 duration-100"
+        >
+          {suggestions.map((task, index) => (
+            <li
+              key={task.id}
+              id={`mention-${task.id}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea so the caret position survives the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(task)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm
+                ${index === activeIndex ? 'bg-accent text-accent-foreground' : ''}`}
+            >
+              <Hash className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+              <span className={`truncate ${isTaskDone(task) ? 'line-through text-muted-foreground' : ''}`}>
+                {task.title}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Plus, Trash2, UserCheck, Users } from "lucide-react";
+import { PersonAvatar } from "@/components/PersonAvatar";
+import { Person } from "@/types/Person";
+import { findPersonByName } from "@/lib/people";
+
+interface PeopleManagerProps {
+  people: Person[];
+  currentPersonId: string | null;
+  usageCounts: Record<string, number>;
+  onCreatePerson: (name: string) => void;
+  onRenamePerson: (id: string, name: string) => void;
+  onDeletePerson: (id: string) => void;
+  onSetCurrentPerson: (id: string | null) => void;
+}
+
+export const PeopleManager = ({
+  people,
+  currentPersonId,
+  usageCounts,
+  onCreatePerson,
+  onRenamePerson,
+  onDeletePerson,
+  onSetCurrentPerson
+}: PeopleManagerProps) => {
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState('');
+  const currentPerson = people.find(person => person.id === currentPersonId);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    if (findPersonByName(people, newName)) {
+      setError(`"${newName.trim()}" is already in the directory`);
+      return;
+    }
+    onCreatePerson(newName);
+    setNewName('');
+    setError('');
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start gap-2" aria-label="Manage people">
+          {currentPerson ? <PersonAvatar person={currentPerson} /> : <Users className="w-4 h-4" />}
+          <span className="truncate">{currentPerson ? currentPerson.name : 'People'}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>People</DialogTitle>
+          <DialogDescription>
+            Everyone who can be assigned to tasks. Mark who is using this browser to use "Assigned to me".
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-2 max-h-[50vh] overflow-auto pr-1">
+          {people.length === 0 && (
+            <li className="text-sm text-muted-foreground">No people yet.</li>
+          )}
+          {people.map(person => {
+            const isCurrent = person.id === currentPersonId;
+            return (
+              <li key={person.id} className="flex items-center gap-2">
+                <PersonAvatar person={person} className="h-8 w-8 text-xs" />
+                <Input
+                  defaultValue={person.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    const duplicate = findPersonByName(people, name);
+                    if (!name || (duplicate && duplicate.id !== person.id)) {
+                      e.target.value = person.name;
+                    } else if (name !== person.name) {
+                      onRenamePerson(person.id, name);
+                    }
+                  }}
+                  maxLength={50}
+                  className="h-8"
+                  aria-label={`Rename "${person.name}"`}
+                />
+                <span className="w-14 shrink-0 text-right text-xs text-muted-foreground">
+                  {usageCounts[person.id] || 0} task{usageCounts[person.id] === 1 ? '' : 's'}
+                </span>
+                <Button
+                  variant={isCurrent ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => onSetCurrentPerson(isCurrent ? null : person.id)}
+                  className="h-8 w-8 p-0"
+                  aria-pressed={isCurrent}
+                  aria-label={isCurrent ? `${person.name} is you` : `This is me: ${person.name}`}
+                  title={isCurrent ? 'This is you' : 'This is me'}
+                >
+                  <UserCheck className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDeletePerson(person.id)}
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  aria-label={`Remove "${person.name}"`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="space-y-1">
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="Name, e.g. Ada Lovelace"
+              maxLength={50}
+            />
+            <Button variant="outline" onClick={handleCreate} disabled={!newName.trim()} aria-label="Add person">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,20 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Person } from "@/types/Person";
+import { getInitials } from "@/lib/people";
+
+interface PersonAvatarProps {
+  person: Person;
+  className?: string;
+}
+
+export const PersonAvatar = ({ person, className = 'h-6 w-6 text-[10px]' }: PersonAvatarProps) => (
+  <Avatar className={className} title={person.name}>
+    <AvatarFallback
+      className="font-semibold text-white"
+      style={{ backgroundColor: person.color }}
+      aria-label={person.name}
+    >
+      {getInitials(person.name)}
+    </AvatarFallback>
+  </Avatar>
+);
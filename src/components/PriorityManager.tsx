@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Flag, Plus, Trash2 } from "lucide-react";
+import { PriorityLevel } from "@/types/Priority";
+import {
+  PRIORITY_PRESETS,
+  findPriorityByLabel,
+  hexToHslToken,
+  hslTokenToHex,
+  readPriorityToken
+} from "@/lib/priorities";
+
+interface PriorityManagerProps {
+  priorities: PriorityLevel[];
+  usageCounts: Record<string, number>;
+  onCreatePriority: (label: string) => void;
+  onUpdatePriority: (level: PriorityLevel) => void;
+  onMovePriority: (id: string, offset: -1 | 1) => void;
+  onDeletePriority: (id: string) => void;
+  onApplyPreset: (levels: PriorityLevel[]) => void;
+}
+
+export const PriorityManager = ({
+  priorities,
+  usageCounts,
+  onCreatePriority,
+  onUpdatePriority,
+  onMovePriority,
+  onDeletePriority,
+  onApplyPreset
+}: PriorityManagerProps) => {
+  const [newLabel, setNewLabel] = useState('');
+  const [error, setError] = useState('');
+
+  const handleCreate = () => {
+    if (!newLabel.trim()) return;
+    if (findPriorityByLabel(priorities, newLabel)) {
+      setError(`A priority named "${newLabel.trim()}" already exists`);
+      return;
+    }
+    onCreatePriority(newLabel);
+    setNewLabel('');
+    setError('');
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" aria-label="Configure priorities">
+          <Flag className="w-3 h-3 mr-1" />
+          Priorities
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Priority Scale</DialogTitle>
+          <DialogDescription>
+            Levels run from most to least urgent. Deleting one moves its tasks to the next level down.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-2 max-h-[50vh] overflow-auto pr-1">
+          {priorities.map((level, index) => (
+            <li key={level.id} className="flex items-center gap-1.5">
+              <input
+                type="color"
+                value={hslTokenToHex(readPriorityToken(level))}
+                onChange={(e) => onUpdatePriority({ ...level, color: hexToHslToken(e.target.value) })}
+                className="w-8 h-8 shrink-0 cursor-pointer rounded bg-transparent"
+                aria-label={`Color for priority "${level.label}"`}
+              />
+              <Input
+                defaultValue={level.label}
+                onBlur={(e) => {
+                  const label = e.target.value.trim();
+                  const duplicate = findPriorityByLabel(priorities, label);
+                  if (!label || (duplicate && duplicate.id !== level.id)) {
+                    e.target.value = level.label;
+                  } else if (label !== level.label) {
+                    onUpdatePriority({ ...level, label });
+                  }
+                }}
+                maxLength={20}
+                className="h-8"
+                aria-label={`Rename priority "${level.label}"`}
+              />
+              <span className="w-14 shrink-0 text-right text-xs text-muted-foreground">
+                {usageCounts[level.id] || 0} task{usageCounts[level.id] === 1 ? '' : 's'}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onMovePriority(level.id, -1)}
+                disabled={index === 0}
+                className="h-8 w-8 p-0"
+                aria-label={`Move "${level.label}" up`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onMovePriority(level.id, 1)}
+                disabled={index === priorities.length - 1}
+                className="h-8 w-8 p-0"
+                aria-label={`Move "${level.label}" down`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDeletePriority(level.id)}
+                disabled={priorities.length === 1}
+                className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                aria-label={`Delete priority "${level.label}"`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-1">
+          <div className="flex gap-2">
+            <Input
+              value={newLabel}
+              onChange={(e) => {
+                setNewLabel(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="New level, e.g. Critical"
+              maxLength={20}
+            />
+            <Button variant="outline" onClick={handleCreate} disabled={!newLabel.trim()} aria-label="Add priority">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 border-t border-border/50 pt-3 text-xs text-muted-foreground">
+          <span>Switch scale:</span>
+          {PRIORITY_PRESETS.map(preset => (
+            <Button
+              key={preset.name}
+              variant="outline"
+              size="sm"
+              onClick={() => onApplyPreset(preset.levels)}
+              disabled={preset.levels.map(level => level.id).join() === priorities.map(level => level.id).join()}
+              className="h-7 text-xs"
+            >
+              {preset.name}
+            </Button>
+          ))}
+          <span className="w-full">Tasks keep their relative urgency on the new scale.</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,242 @@
+import { ReactNode, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Archive, Folder, Inbox, ListTodo, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { Project } from "@/types/Project";
+import {
+  ARCHIVE_PATH,
+  INBOX_PATH,
+  ProjectTaskCounts,
+  TRASH_PATH,
+  findProjectByName,
+  getProjectPath
+} from "@/lib/projects";
+
+interface ProjectSidebarProps {
+  projects: Project[];
+  counts: ProjectTaskCounts;
+  archiveCount: number;
+  trashCount: number;
+  activePath: string;
+  onCreateProject: (name: string) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
+  footer?: ReactNode;
+}
+
+interface ProjectNameInputProps {
+  projects: Project[];
+  initialName?: string;
+  ignoreId?: string;
+  placeholder: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+// Inline input used both for new projects and for renaming, committed with Enter
+const ProjectNameInput = ({ projects, initialName = '', ignoreId, placeholder, onSubmit, onCancel }: ProjectNameInputProps) => {
+  const [name, setName] = useState(initialName);
+  const duplicate = findProjectByName(projects, name);
+  const error = duplicate && duplicate.id !== ignoreId ? `"${duplicate.name}" already exists` : '';
+
+  return (
+    <div className="px-2 pb-1 space-y-1">
+      <SidebarInput
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={onCancel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && name.trim() && !error) {
+            onSubmit(name.trim());
+          } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            onCancel();
+          }
+        }}
+        placeholder={placeholder}
+        maxLength={50}
+        aria-invalid={!!error}
+        aria-label={placeholder}
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export const ProjectSidebar = ({
+  projects,
+  counts,
+  archiveCount,
+  trashCount,
+  activePath,
+  onCreateProject,
+  onRenameProject,
+  onDeleteProject,
+  footer
+}: ProjectSidebarProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="px-2 py-1.5 text-sm font-semibold">Task Navigator</div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={activePath === '/'}>
+                  <Link to="/">
+                    <ListTodo />
+                    <span>All Tasks</span>
+                  </Link>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{counts.all}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={activePath === INBOX_PATH}>
+                  <Link to={INBOX_PATH}>
+                    <Inbox />
+                    <span>Inbox</span>
+                  </Link>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{counts.inbox}</SidebarMenuBadge>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction onClick={() => setIsCreating(true)} aria-label="Add project">
+            <Plus />
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            {isCreating && (
+              <ProjectNameInput
+                projects={projects}
+                placeholder="New project name"
+                onSubmit={(name) => {
+                  onCreateProject(name);
+                  setIsCreating(false);
+                }}
+                onCancel={() => setIsCreating(false)}
+              />
+            )}
+            <SidebarMenu>
+              {projects.map(project => (
+                <SidebarMenuItem key={project.id}>
+                  {renamingId === project.id ? (
+                    <ProjectNameInput
+                      projects={projects}
+                      initialName={project.name}
+                      ignoreId={project.id}
+                      placeholder="Project name"
+                      onSubmit={(name) => {
+                        onRenameProject(project.id, name);
+                        setRenamingId(null);
+                      }}
+                      onCancel={() => setRenamingId(null)}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton asChild isActive={activePath === getProjectPath(project.id)}>
+                        <Link to={getProjectPath(project.id)}>
+                          <Folder />
+                          <span>{project.name}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                      <SidebarMenuBadge className="group-hover/menu-item:opacity-0">
+                        {counts.byProject[project.id] || 0}
+                      </SidebarMenuBadge>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover aria-label={`Actions for project "${project.name}"`}>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent
+                          side="right"
+                          align="start"
+                          // Let the rename input keep focus instead of returning it to the trigger
+                          onCloseAutoFocus={(e) => e.preventDefault()}
+                        >
+                          <DropdownMenuItem onSelect={() => setRenamingId(project.id)}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onSelect={() => onDeleteProject(project.id)}
+                            className="text-red-600 focus:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+              {projects.length === 0 && !isCreating && (
+                <p className="px-2 py-1.5 text-xs text-sidebar-foreground/60">
+                  No projects yet. Use + to create one.
+                </p>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup className="mt-auto">
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={activePath === ARCHIVE_PATH}>
+                  <Link to={ARCHIVE_PATH}>
+                    <Archive />
+                    <span>Archive</span>
+                  </Link>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{archiveCount}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={activePath === TRASH_PATH}>
+                  <Link to={TRASH_PATH}>
+                    <Trash2 />
+                    <span>Trash</span>
+                  </Link>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{trashCount}</SidebarMenuBadge>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      {footer && <SidebarFooter>{footer}</SidebarFooter>}
+    </Sidebar>
+  );
+};
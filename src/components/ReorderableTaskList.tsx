@@ -0,0 +1,85 @@
+import { useState, type KeyboardEvent, type ReactNode } from "react";
+import { Task } from "@/types/Task";
+import { isEditableTarget } from "@/lib/utils";
+
+interface ReorderableTaskListProps {
+  tasks: Task[];
+  // Reordering only makes sense while the list is shown in manual order
+  enabled: boolean;
+  onMove: (taskId: string, targetIndex: number) => void;
+  renderTask: (task: Task) => ReactNode;
+}
+
+export const ReorderableTaskList = ({ tasks, enabled, onMove, renderTask }: ReorderableTaskListProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const resetDrag = () => {
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  // Alt+Up/Down moves the focused card one place and keeps focus on it
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>, task: Task, index: number) => {
+    if (!enabled || !e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    // Events from portals (sheets, dialogs) bubble through React but aren't inside the card
+    if (!e.currentTarget.contains(e.target as Node) || isEditableTarget(e.target)) return;
+
+    const targetIndex = index + (e.key === 'ArrowUp' ? -1 : 1);
+    if (targetIndex < 0 || targetIndex >= tasks.length) return;
+    e.preventDefault();
+    onMove(task.id, targetIndex);
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-task-id="${task.id}"]`)?.focus();
+    });
+  };
+
+  return (
+    <div className="grid gap-3" onDragEnd={resetDrag}>
+      {tasks.map((task, index) => (
+        <div
+          key={task.id}
+          data-task-id={task.id}
+          tabIndex={enabled ? 0 : undefined}
+          draggable={enabled}
+          onDragStart={(e) => {
+            if (isEditableTarget(e.target)) return;
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedId(task.id);
+          }}
+          onDragOver={(e) => {
+            if (!draggedId) return;
+            e.preventDefault();
+            const { top, height } = e.currentTarget.getBoundingClientRect();
+            setDropIndex(e.clientY < top + height / 2 ? index : index + 1);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggedId && dropIndex !== null) {
+              const fromIndex = tasks.findIndex(t => t.id === draggedId);
+              // Positions after the dragged card shift up once it's taken out of the list
+              const targetIndex = dropIndex > fromIndex ? dropIndex - 1 : dropIndex;
+              if (targetIndex !== fromIndex) onMove(draggedId, targetIndex);
+            }
+            resetDrag();
+          }}
+          onKeyDown={(e) => handleKeyDown(e, task, index)}
+          className={`relative rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-ring
+            animate-in slide-in-from-bottom-2 duration-300 ease-out delay-${Math.min(index * 50, 1000)}
+            ${enabled ? 'cursor-grab active:cursor-grabbing' : ''}
+            ${draggedId === task.id ? 'opacity-50' : ''}`}
+          aria-roledescription={enabled ? 'sortable task' : undefined}
+          aria-keyshortcuts={enabled ? 'Alt+ArrowUp Alt+ArrowDown' : undefined}
+        >
+          {draggedId && dropIndex === index && (
+            <div className="absolute -top-2 left-0 right-0 h-0.5 rounded-full bg-primary" />
+          )}
+          {renderTask(task)}
+          {draggedId && dropIndex === tasks.length && index === tasks.length - 1 && (
+            <div className="absolute -bottom-2 left-0 right-0 h-0.5 rounded-full bg-primary" />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RepeatEnd, RepeatFrequency, RepeatRule } from "@/types/Task";
+import { WEEKDAY_LABELS, createRepeatRule, describeRepeatRule, describeWeekOfMonth } from "@/lib/recurrence";
+import { parseDateKey, toDateKey } from "@/lib/dates";
+
+interface RepeatRuleEditorProps {
+  value: RepeatRule | null;
+  onChange: (rule: RepeatRule | null) => void;
+  anchorDate: Date;
+  disabled?: boolean;
+}
+
+const NO_REPEAT = 'none';
+
+const INTERVAL_UNITS: Partial<Record<RepeatFrequency, string>> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)'
+};
+
+export const RepeatRuleEditor = ({ value, onChange, anchorDate, disabled }: RepeatRuleEditorProps) => {
+  const update = (changes: Partial<RepeatRule>) => onChange({ ...value, ...changes });
+
+  const handleEndTypeChange = (type: RepeatEnd['type']) => {
+    if (type === 'count') {
+      update({ end: { type, count: 5 } });
+    } else if (type === 'date') {
+      update({ end: { type, date: anchorDate.getTime() } });
+    } else {
+      update({ end: { type } });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={value ? value.frequency : NO_REPEAT}
+        onValueChange={(frequency) => onChange(
+          frequency === NO_REPEAT
+            ? null
+            : { ...(value || createRepeatRule(anchorDate)), frequency: frequency as RepeatFrequency }
+        )}
+        disabled={disabled}
+      >
+        <SelectTrigger
+          id="repeat"
+          className="transition-all duration-200 hover:border-primary/50 focus:border-primary"
+        >
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekdays">Every weekday (Mon–Fri)</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="space-y-3 rounded-md border border-border/50 p-3 animate-in slide-in-from-top-2 duration-200">
+          {INTERVAL_UNITS[value.frequency] && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>Every</span>
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={disabled}
+                className="h-8 w-16"
+                aria-label="Repeat interval"
+              />
+              <span>{INTERVAL_UNITS[value.frequency]}</span>
+            </div>
+          )}
+
+          {value.frequency === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              value={(value.weekDays || []).map(String)}
+              onValueChange={(days) => update({ weekDays: days.map(Number) })}
+              disabled={disabled}
+              className="flex-wrap justify-start"
+              aria-label="Repeat on"
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)} size="sm" variant="outline" className="w-11">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <Select
+              value={value.monthlyBy || 'date'}
+              onValueChange={(monthlyBy: 'date' | 'weekday') => update({ monthlyBy })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8" aria-label="Monthly repeat mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">On day {anchorDate.getDate()}</SelectItem>
+                <SelectItem value="weekday">On the {describeWeekOfMonth(anchorDate)}</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select
+              value={value.end.type}
+              onValueChange={handleEndTypeChange}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 w-32" aria-label="Repeat end">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="date">On date</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.end.type === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={value.end.count}
+                  onChange={(e) => update({ end: { type: 'count', count: Math.max(1, Number(e.target.value) || 1) } })}
+                  disabled={disabled}
+                  className="h-8 w-20"
+                  aria-label="Number of occurrences"
+                />
+                <span>times</span>
+              </>
+            )}
+            {value.end.type === 'date' && (
+              <Input
+                type="date"
+                value={toDateKey(new Date(value.end.date))}
+                min={toDateKey(anchorDate)}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  update({ end: { type: 'date', date: parseDateKey(e.target.value).getTime() } });
+                }}
+                disabled={disabled}
+                className="h-8 w-40"
+                aria-label="Repeat until"
+              />
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {describeRepeatRule(
+              { ...value, monthDay: anchorDate.getDate() },
+              toDateKey(anchorDate)
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
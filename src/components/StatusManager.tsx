@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Plus, Trash2, Workflow } from "lucide-react";
+import { StatusDefinition } from "@/types/Status";
+import { TAG_COLORS } from "@/lib/tags";
+
+interface StatusManagerProps {
+  statuses: StatusDefinition[];
+  usageCounts: Record<string, number>;
+  onCreateStatus: (label: string, color: string) => void;
+  onUpdateStatus: (status: StatusDefinition) => void;
+  onDeleteStatus: (id: string) => void;
+}
+
+const isDuplicateLabel = (statuses: StatusDefinition[], label: string, ignoreId?: string) =>
+  statuses.some(status =>
+    status.id !== ignoreId && status.label.toLowerCase() === label.trim().toLowerCase()
+  );
+
+export const StatusManager = ({
+  statuses,
+  usageCounts,
+  onCreateStatus,
+  onUpdateStatus,
+  onDeleteStatus
+}: StatusManagerProps) => {
+  const [newLabel, setNewLabel] = useState('');
+  const [error, setError] = useState('');
+
+  const handleCreate = () => {
+    if (!newLabel.trim()) return;
+    if (isDuplicateLabel(statuses, newLabel)) {
+      setError(`A status named "${newLabel.trim()}" already exists`);
+      return;
+    }
+    const customCount = statuses.filter(status => !status.isBuiltIn).length;
+    onCreateStatus(newLabel, TAG_COLORS[customCount % TAG_COLORS.length]);
+    setNewLabel('');
+    setError('');
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" aria-label="Configure statuses">
+          <Workflow className="w-3 h-3 mr-1" />
+          Statuses
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Task Statuses</DialogTitle>
+          <DialogDescription>
+            Extra statuses sit between "Blocked" and "Done". Deleting one moves its tasks back to "To Do".
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-2 max-h-[50vh] overflow-auto pr-1">
+          {statuses.map(status => (
+            <li key={status.id} className="flex items-center gap-2">
+              {status.isBuiltIn ? (
+                <>
+                  <span className="w-8 h-8 shrink-0 flex items-center justify-center">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: status.color }} />
+                  </span>
+                  <span className="flex-1 px-3 text-sm">{status.label}</span>
+                </>
+              ) : (
+                <>
+                  <input
+                    type="color"
+                    value={status.color}
+                    onChange={(e) => onUpdateStatus({ ...status, color: e.target.value })}
+                    className="w-8 h-8 shrink-0 cursor-pointer rounded bg-transparent"
+                    aria-label={`Color for status "${status.label}"`}
+                  />
+                  <Input
+                    defaultValue={status.label}
+                    onBlur={(e) => {
+                      const label = e.target.value.trim();
+                      if (!label || isDuplicateLabel(statuses, label, status.id)) {
+                        e.target.value = status.label;
+                      } else if (label !== status.label) {
+                        onUpdateStatus({ ...status, label });
+                      }
+                    }}
+                    maxLength={30}
+                    className="h-8"
+                    aria-label={`Rename status "${status.label}"`}
+                  />
+                </>
+              )}
+              <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+                {usageCounts[status.id] || 0} task{usageCounts[status.id] === 1 ? '' : 's'}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDeleteStatus(status.id)}
+                disabled={status.isBuiltIn}
+                className={`h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50
+                  ${status.isBuiltIn ? 'invisible' : ''}`}
+                aria-label={`Delete status "${status.label}"`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-1">
+          <div className="flex gap-2">
+            <Input
+              value={newLabel}
+              onChange={(e) => {
+                setNewLabel(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="New status, e.g. In Review"
+              maxLength={30}
+            />
+            <Button variant="outline" onClick={handleCreate} disabled={!newLabel.trim()} aria-label="Add status">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TaskStatus } from "@/types/Task";
+import { StatusDefinition } from "@/types/Status";
+
+interface StatusSelectProps {
+  value: TaskStatus;
+  statuses: StatusDefinition[];
+  onChange: (status: TaskStatus) => void;
+  label: string;
+  className?: string;
+}
+
+export const StatusSelect = ({ value, statuses, onChange, label, className }: StatusSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger
+      className={`h-8 w-auto gap-2 text-xs transition-all duration-200 hover:border-primary/50 ${className || ''}`}
+      aria-label={label}
+    >
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {statuses.map(status => (
+        <SelectItem key={status.id} value={status.id}>
+          <div className="flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: status.color }} />
+            {status.label}
+          </div>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, Trash2 } from "lucide-react";
+import type { ServerSyncStatus } from "@/hooks/useServerSync";
+
+interface SyncSettingsProps {
+  sync: ServerSyncStatus;
+}
+
+const describeStatus = ({ settings, isOnline, isSyncing, pendingCount, error, lastSyncedAt }: ServerSyncStatus) => {
+  if (!settings.enabled) return 'Sync is off. Tasks are kept on this device only.';
+  if (!isOnline) return `Offline. ${pendingCount} change${pendingCount === 1 ? '' : 's'} will be sent when you're back online.`;
+  if (error) return `${error}. Changes are kept here and sent once it can be reached.`;
+  if (isSyncing) return 'Syncing…';
+  if (pendingCount > 0) return `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to be sent.`;
+  if (lastSyncedAt) return `Up to date. Last synced ${formatDistanceToNow(lastSyncedAt, { addSuffix: true })}.`;
+  return 'Connecting…';
+};
+
+export const SyncSettings = ({ sync }: SyncSettingsProps) => {
+  const {
+    settings,
+    updateSettings,
+    isOnline,
+    pendingCount,
+    failedOperations,
+    retryFailed,
+    discardFailed,
+    error,
+    syncNow
+  } = sync;
+  const [url, setUrl] = useState(settings.url);
+  const queuedCount = pendingCount + failedOperations.length;
+  const isConnected = settings.enabled && isOnline && !error && failedOperations.length === 0;
+
+  const handleSaveUrl = () => {
+    const nextUrl = url.trim().replace(/\/+$/, '');
+    if (!nextUrl) {
+      setUrl(settings.url);
+    } else if (nextUrl !== settings.url) {
+      updateSettings({ ...settings, url: nextUrl });
+      setUrl(nextUrl);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && setUrl(settings.url)}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" aria-label="Configure server sync">
+          {isConnected || !settings.enabled
+            ? <Cloud className="w-3 h-3 mr-1" />
+            : <CloudOff className="w-3 h-3 mr-1" />}
+          Sync
+          {settings.enabled && queuedCount > 0 && ` (${queuedCount})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Server Sync</DialogTitle>
+          <DialogDescription>
+            Keep tasks on a sync server so they're the same on every device. Changes are saved here first,
+            so you can keep working offline; they're sent once the server can be reached.
+            Run <code>npm run server</code> for a local one.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="sync-enabled">Sync with a server</Label>
+            <Switch
+              id="sync-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => updateSettings({ ...settings, enabled })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="sync-url">Server address</Label>
+            <Input
+              id="sync-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onBlur={handleSaveUrl}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSaveUrl();
+                }
+              }}
+              placeholder="http://localhost:3001/api"
+            />
+            <p className="text-xs text-muted-foreground">
+              Changing the address uploads every task to the new server.
+            </p>
+          </div>
+          {failedOperations.length > 0 && (
+            <div className="space-y-2 border-t border-border/50 pt-3">
+              <div className="flex items-center justify-between gap-4">
+                <p className="flex items-center text-sm font-medium text-red-700">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  The server refused {failedOperations.length} change{failedOperations.length === 1 ? '' : 's'}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={retryFailed}
+                  disabled={!settings.enabled || !isOnline}
+                  className="shrink-0"
+                >
+                  Retry
+                </Button>
+              </div>
+              <ul className="space-y-1 max-h-40 overflow-auto pr-1">
+                {failedOperations.map(operation => (
+                  <li key={operation.id} className="flex items-center gap-2 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate">
+                        {operation.type === 'delete' ? 'Delete ' : ''}"{operation.title}"
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">{operation.error}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => discardFailed(operation.id)}
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                      aria-label={`Discard the change to "${operation.title}"; it stays on this device only`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4 border-t border-border/50 pt-3">
+            <p className="text-sm text-muted-foreground" role="status">
+              {describeStatus(sync)}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={syncNow}
+              disabled={!settings.enabled || !isOnline}
+              className="shrink-0"
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Sync now
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,30 @@
+import { X } from "lucide-react";
+import { Tag } from "@/types/Tag";
+import { getColorChipStyle } from "@/lib/utils";
+
+interface TagChipProps {
+  tag: Tag;
+  onRemove?: () => void;
+  disabled?: boolean;
+}
+
+export const TagChip = ({ tag, onRemove, disabled }: TagChipProps) => (
+  <span
+    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium
+      animate-in fade-in-0 zoom-in-95 duration-200"
+    style={getColorChipStyle(tag.color)}
+  >
+    {tag.name}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={disabled}
+        className="rounded-full hover:bg-black/10 transition-colors"
+        aria-label={`Remove tag "${tag.name}"`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
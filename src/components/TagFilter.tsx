@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Tags } from "lucide-react";
+import { Tag } from "@/types/Tag";
+
+interface TagFilterProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+export const TagFilter = ({ tags, selectedTagIds, onChange }: TagFilterProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant={selectedTagIds.length > 0 ? 'secondary' : 'outline'}
+        size="sm"
+        className="h-10 shrink-0 transition-all duration-200 hover:border-primary/50"
+        aria-label="Filter by tag"
+      >
+        <Tags className="w-4 h-4 sm:mr-2" />
+        <span className="hidden sm:inline">Tags</span>
+        {selectedTagIds.length > 0 && (
+          <span className="ml-1.5 px-1.5 rounded-full bg-primary/10 text-primary text-xs">
+            {selectedTagIds.length}
+          </span>
+        )}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-56">
+      <DropdownMenuLabel>Show tasks tagged with</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {tags.length === 0 ? (
+        <div className="px-2 py-1.5 text-sm text-muted-foreground">No tags yet</div>
+      ) : (
+        tags.map(tag => (
+          <DropdownMenuCheckboxItem
+            key={tag.id}
+            checked={selectedTagIds.includes(tag.id)}
+            onCheckedChange={(checked) => onChange(
+              checked
+                ? [...selectedTagIds, tag.id]
+                : selectedTagIds.filter(tagId => tagId !== tag.id)
+            )}
+            // Keep the menu open so several tags can be picked in a row
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="w-2.5 h-2.5 mr-2 rounded-full" style={{ backgroundColor: tag.color }} />
+            {tag.name}
+          </DropdownMenuCheckboxItem>
+        ))
+      )}
+      {selectedTagIds.length > 0 && (
+        <>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => onChange([])}>Clear tag filter</DropdownMenuItem>
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
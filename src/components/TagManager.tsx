@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Settings2, Trash2 } from "lucide-react";
+import { Tag } from "@/types/Tag";
+import { findTagByName } from "@/lib/tags";
+
+interface TagManagerProps {
+  tags: Tag[];
+  usageCounts: Record<string, number>;
+  onUpdateTag: (tag: Tag) => void;
+  onDeleteTag: (id: string) => void;
+}
+
+interface TagRowProps {
+  tag: Tag;
+  tags: Tag[];
+  usageCount: number;
+  onUpdateTag: (tag: Tag) => void;
+  onDeleteTag: (id: string) => void;
+}
+
+const TagRow = ({ tag, tags, usageCount, onUpdateTag, onDeleteTag }: TagRowProps) => {
+  const [name, setName] = useState(tag.name);
+  const [error, setError] = useState('');
+
+  const commitRename = () => {
+    const duplicate = findTagByName(tags, name);
+    if (!name.trim() || (duplicate && duplicate.id !== tag.id)) {
+      setError(name.trim() ? `A tag named "${duplicate.name}" already exists` : 'Tag name is required');
+      setName(tag.name);
+      return;
+    }
+
+    setError('');
+    if (name.trim() !== tag.name) {
+      onUpdateTag({ ...tag, name: name.trim() });
+    }
+  };
+
+  return (
+    <li className="space-y-1">
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={tag.color}
+          onChange={(e) => onUpdateTag({ ...tag, color: e.target.value })}
+          className="w-8 h-8 shrink-0 cursor-pointer rounded bg-transparent"
+          aria-label={`Color for tag "${tag.name}"`}
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commitRename();
+            }
+          }}
+          maxLength={30}
+          className="h-8"
+          aria-label={`Rename tag "${tag.name}"`}
+        />
+        <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+          {usageCount} task{usageCount === 1 ? '' : 's'}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onDeleteTag(tag.id)}
+          className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+          aria-label={`Delete tag "${tag.name}"`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      {error && <p className="pl-10 text-xs text-red-600">{error}</p>}
+    </li>
+  );
+};
+
+export const TagManager = ({ tags, usageCounts, onUpdateTag, onDeleteTag }: TagManagerProps) => (
+  <Dialog>
+    <DialogTrigger asChild>
+      <Button variant="outline" size="sm" aria-label="Manage tags">
+        <Settings2 className="w-4 h-4" />
+      </Button>
+    </DialogTrigger>
+    <DialogContent className="max-w-md">
+      <DialogHeader>
+        <DialogTitle>Manage Tags</DialogTitle>
+        <DialogDescription>
+          Renaming or deleting a tag updates every task that uses it.
+        </DialogDescription>
+      </DialogHeader>
+      {tags.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          No tags yet. Add one from the task form.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-[60vh] overflow-auto pr-1">
+          {tags.map(tag => (
+            <TagRow
+              key={tag.id}
+              tag={tag}
+              tags={tags}
+              usageCount={usageCounts[tag.id] || 0}
+              onUpdateTag={onUpdateTag}
+              onDeleteTag={onDeleteTag}
+            />
+          ))}
+        </ul>
+      )}
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Plus } from "lucide-react";
+import { TagChip } from "@/components/TagChip";
+import { Tag } from "@/types/Tag";
+import { TAG_COLORS, findTagByName, getNextTagColor } from "@/lib/tags";
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+  onCreateTag: (name: string, color: string) => Tag;
+  disabled?: boolean;
+}
+
+export const TagPicker = ({ tags, selectedTagIds, onChange, onCreateTag, disabled }: TagPickerProps) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [newTagColor, setNewTagColor] = useState(() => getNextTagColor(tags));
+
+  const selectedTags = selectedTagIds
+    .map(tagId => tags.find(tag => tag.id === tagId))
+    .filter(Boolean);
+
+  // Autocomplete from existing tags that are not on the task yet
+  const suggestions = tags.filter(tag =>
+    !selectedTagIds.includes(tag.id) &&
+    tag.name.toLowerCase().includes(query.trim().toLowerCase())
+  );
+  const canCreate = query.trim() !== '' && !findTagByName(tags, query);
+
+  const selectTag = (tag: Tag) => {
+    if (!selectedTagIds.includes(tag.id)) {
+      onChange([...selectedTagIds, tag.id]);
+    }
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleCreateTag = () => {
+    const tag = onCreateTag(query, newTagColor);
+    selectTag(tag);
+    setNewTagColor(getNextTagColor([...tags, tag]));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(activeIndex + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(activeIndex - 1, 0));
+    } else if (e.key === 'Enter') {
+      // Enter picks a tag instead of submitting the whole form
+      e.preventDefault();
+      if (suggestions[activeIndex]) {
+        selectTag(suggestions[activeIndex]);
+      } else if (canCreate) {
+        handleCreateTag();
+      }
+    } else if (e.key === 'Backspace' && !query && selectedTagIds.length > 0) {
+      onChange(selectedTagIds.slice(0, -1));
+    } else if (e.key === 'Escape' && isOpen) {
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selectedTags.map(tag => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              disabled={disabled}
+              onRemove={() => onChange(selectedTagIds.filter(tagId => tagId !== tag.id))}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id="tags"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Add tags... (Enter to add)"
+          disabled={disabled}
+          maxLength={30}
+          role="combobox"
+          aria-expanded={isOpen && (suggestions.length > 0 || canCreate)}
+          aria-controls="tag-suggestions"
+          aria-autocomplete="list"
+          className="transition-all duration-200 focus:border-primary hover:border-primary/50"
+        />
+
+        {isOpen && (suggestions.length > 0 || canCreate) && (
+          <ul
+            id="tag-suggestions"
+            role="listbox"
+            className="absolute z-20 mt-1 w-full max-h-56 overflow-auto rounded-md border border-border
+              bg-popover p-1 shadow-md animate-in fade-in-0 zoom-in-95 duration-150"
+          >
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectTag(tag)}
+                className={`flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer
+                  ${index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                role="option"
+                aria-selected={suggestions.length === 0}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={handleCreateTag}
+                className={`flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer
+                  ${suggestions.length === 0 ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'}`}
+              >
+                <Plus className="w-3.5 h-3.5" />
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: newTagColor }} />
+                Create tag <strong>"{query.trim()}"</strong>
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      {canCreate && (
+        <div className="flex flex-wrap items-center gap-1.5 animate-in fade-in-0 duration-200">
+          <span className="text-xs text-muted-foreground mr-1">New tag color:</span>
+          {TAG_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setNewTagColor(color)}
+              className={`w-5 h-5 rounded-full border-2 transition-transform hover:scale-110
+                ${newTagColor === color ? 'border-foreground' : 'border-transparent'}`}
+              style={{ backgroundColor: color }}
+              aria-label={`Use color ${color}`}
+              aria-pressed={newTagColor === color}
+            />
+          ))}
+          <input
+            type="color"
+            value={newTagColor}
+            onChange={(e) => setNewTagColor(e.target.value)}
+            className="w-6 h-6 cursor-pointer rounded bg-transparent"
+            aria-label="Custom tag color"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,57 +1,137 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Edit, Trash2, Calendar, Clock, CheckCircle2 } from "lucide-react";
-import { Task } from "@/types/Task";
+import { Edit, Trash2, Calendar, Clock, CheckCircle2, ListChecks, ChevronDown, Repeat, Lock, CalendarClock, Timer, Play, Square, Archive, ArchiveRestore } from "lucide-react";
+import { TagChip } from "@/components/TagChip";
+import { StatusSelect } from "@/components/StatusSelect";
+import { CommentThread } from "@/components/CommentThread";
+import { TaskHistory } from "@/components/TaskHistory";
+import { AttachmentThumbnail } from "@/components/AttachmentThumbnail";
+import { PersonAvatar } from "@/components/PersonAvatar";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { TaskMentionLink } from "@/components/TaskMentionLink";
+import { ActiveTimer, Task, TaskChange, TaskComment, TaskStatus } from "@/types/Task";
+import { Tag } from "@/types/Tag";
+import { StatusDefinition } from "@/types/Status";
+import { PriorityLevel } from "@/types/Priority";
+import { CustomFieldDefinition } from "@/types/CustomField";
+import { Person } from "@/types/Person";
+import { getChecklistProgress } from "@/lib/checklist";
+import { describeRepeatRule } from "@/lib/recurrence";
+import { isTaskDone } from "@/lib/status";
+import { getPriorityChipStyle, getPriorityColor, getPriorityLevel } from "@/lib/priorities";
+import { formatDueDate, isTaskOverdue, isTaskScheduled, parseDateKey } from "@/lib/dates";
+import { estimateToMs, formatDuration, getTrackedMs } from "@/lib/timeTracking";
+import { formatCustomFieldValue, isEmptyFieldValue } from "@/lib/customFields";
+import { useNow } from "@/hooks/useNow";
 
 interface TaskCardProps extends Task {
+  tags: Tag[];
+  statuses: StatusDefinition[];
+  priorities: PriorityLevel[];
+  fieldDefinitions: CustomFieldDefinition[];
+  people: Person[];
+  // Credited with comments written from this card
+  currentAuthorId: string;
+  openBlockers: Task[];
+  // Every task, to resolve #-mentions; backlinks are the tasks that mention this one
+  allTasks: Task[];
+  backlinks: Task[];
+  activeTimer: ActiveTimer | null;
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onToggleComplete: (id: string) => void;
+  onChangeStatus: (id: string, status: TaskStatus) => void;
+  onToggleChecklistItem: (taskId: string, itemId: string) => void;
+  onToggleDescriptionItem: (taskId: string, line: number) => void;
+  onToggleTimer: (id: string) => void;
+  onChangeComments: (id: string, comments: TaskComment[]) => void;
+  describeHistoryValue: (field: keyof Task, value: unknown) => string;
+  onRevertChange: (taskId: string, change: TaskChange) => void;
+  onSetArchived: (id: string, archived: boolean) => void;
+  onRestore: (id: string) => void;
+  onOpenTask: (id: string) => void;
 }
 
 export const TaskCard = ({ 
-  id, 
-  title, 
-  description, 
-  priority, 
-  isCompleted, 
-  dueDate, 
-  createdAt,
+  tags,
+  statuses,
+  priorities,
+  fieldDefinitions,
+  people,
+  currentAuthorId,
+  openBlockers,
+  allTasks,
+  backlinks,
+  activeTimer,
   onEdit, 
   onDelete, 
-  onToggleComplete 
+  onToggleComplete,
+  onChangeStatus,
+  onToggleChecklistItem,
+  onToggleDescriptionItem,
+  onToggleTimer,
+  onChangeComments,
+  describeHistoryValue,
+  onRevertChange,
+  onSetArchived,
+  onRestore,
+  onOpenTask,
+  ...taskData
 }: TaskCardProps) => {
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'high':
-        return 'bg-red-100 text-red-800 border-red-200 hover:bg-red-200';
-      case 'medium':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200 hover:bg-yellow-200';
-      case 'low':
-        return 'bg-green-100 text-green-800 border-green-200 hover:bg-green-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200 hover:bg-gray-200';
-    }
-  };
+  // Everything not listed above is the task itself, passed back untouched on edit
+  const {
+    id,
+    title,
+    description,
+    priority,
+    status,
+    dueDate,
+    startDate,
+    createdAt,
+    updatedAt,
+    completedAt,
+    checklist = [],
+    tagIds = [],
+    repeat,
+    estimateMinutes,
+    comments = [],
+    customFields = {},
+    attachments = [],
+    assigneeIds = [],
+    archivedAt,
+    deletedAt
+  } = taskData;
+
+  const [showChecklist, setShowChecklist] = useState(false);
+
+  const priorityLevel = getPriorityLevel(priorities, priority);
 
   const formatDate = (timestamp?: number) => {
     if (!timestamp) return null;
     return new Date(timestamp).toLocaleDateString();
   };
 
-  const isOverdue = dueDate && !isCompleted && new Date(dueDate) < new Date();
+  const isCompleted = isTaskDone(taskData);
+  const checklistProgress = getChecklistProgress(checklist);
+  const assignees = assigneeIds
+    .map(personId => people.find(person => person.id === personId))
+    .filter(Boolean);
+  const taskTags = tagIds
+    .map(tagId => tags.find(tag => tag.id === tagId))
+    .filter(Boolean);
 
-  const taskData: Task = {
-    id,
-    title,
-    description,
-    priority,
-    isCompleted,
-    dueDate,
-    createdAt
-  };
+  const isOverdue = isTaskOverdue(taskData);
+  const filledFields = fieldDefinitions.filter(field => !isEmptyFieldValue(customFields[field.id]));
+
+  const isTracking = activeTimer?.taskId === id;
+  const now = useNow(isTracking);
+  const trackedMs = getTrackedMs(taskData, activeTimer, now);
+  const isOverEstimate = !!estimateMinutes && trackedMs > estimateToMs(estimateMinutes);
 
   return (
     <Card 
@@ -60,11 +140,8 @@ export const TaskCard = ({
           ? 'opacity-60 scale-[0.98] bg-muted/30' 
           : 'hover:scale-[1.01] hover:bg-card/80'
         } 
-        transform-gpu will-change-transform border-l-4 
-        ${priority === 'high' ? 'border-l-red-500' : 
-          priority === 'medium' ? 'border-l-yellow-500' : 
-          'border-l-green-500'
-        }`}
+        transform-gpu will-change-transform border-l-4`}
+      style={{ borderLeftColor: getPriorityColor(priorityLevel.id) }}
       role="article"
       aria-label={`Task: ${title}`}
     >
@@ -74,6 +151,7 @@ export const TaskCard = ({
             <Checkbox
               checked={isCompleted}
               onCheckedChange={() => onToggleComplete(id)}
+              disabled={!!deletedAt}
               className="mt-1 transition-transform duration-200 hover:scale-110"
               aria-label={`Mark task "${title}" as ${isCompleted ? 'incomplete' : 'complete'}`}
             />
@@ -88,34 +166,165 @@ export const TaskCard = ({
                 {title}
               </CardTitle>
               {description && (
-                <p className={`text-sm leading-relaxed transition-all duration-300 
-                  ${isCompleted ? 'text-muted-foreground/70' : 'text-muted-foreground'}
-                `}>
-                  {description}
-                </p>
+                <MarkdownContent
+                  text={description}
+                  tasks={allTasks}
+                  statuses={statuses}
+                  priorities={priorities}
+                  onOpenTask={onOpenTask}
+                  onToggleTaskItem={deletedAt ? undefined : (line) => onToggleDescriptionItem(id, line)}
+                  className={`text-sm leading-relaxed transition-all duration-300 
+                    ${isCompleted ? 'text-muted-foreground/70' : 'text-muted-foreground'}`}
+                />
               )}
             </div>
           </div>
           
-          {/* Priority Badge - Mobile responsive */}
-          <div className="flex-shrink-0">
+          {/* Priority and Blocked Badges - Mobile responsive */}
+          <div className="flex-shrink-0 flex flex-col items-end gap-1.5">
             <Badge 
               variant="outline" 
-              className={`${getPriorityColor(priority)} transition-all duration-200 
-                hover:scale-105 text-xs font-medium animate-in fade-in-0 slide-in-from-right-2`}
+              className="transition-all duration-200 
+                hover:scale-105 text-xs font-medium animate-in fade-in-0 slide-in-from-right-2"
+              style={getPriorityChipStyle(priorityLevel.id)}
             >
               <span className="hidden sm:inline">
-                {priority.charAt(0).toUpperCase() + priority.slice(1)}
+                {priorityLevel.label}
               </span>
               <span className="sm:hidden">
-                {priority.charAt(0).toUpperCase()}
+                {priorityLevel.label.charAt(0).toUpperCase()}
               </span>
             </Badge>
+            {openBlockers.length > 0 && !isCompleted && (
+              <Badge
+                variant="outline"
+                className="bg-red-100 text-red-800 border-red-200 text-xs font-medium gap-1
+                  animate-in fade-in-0 slide-in-from-right-2"
+              >
+                <Lock className="w-3 h-3" />
+                Blocked
+              </Badge>
+            )}
+            {archivedAt && !deletedAt && (
+              <Badge variant="outline" className="text-xs font-medium gap-1 text-muted-foreground">
+                <Archive className="w-3 h-3" />
+                Archived
+              </Badge>
+            )}
+            {assignees.length > 0 && (
+              <div
+                className="flex -space-x-1.5 animate-in fade-in-0 slide-in-from-right-2"
+                aria-label={`Assigned to ${assignees.map(person => person.name).join(', ')}`}
+              >
+                {assignees.map(person => (
+                  <PersonAvatar key={person.id} person={person} className="h-6 w-6 text-[10px] ring-2 ring-background" />
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </CardHeader>
       
       <CardContent className="pt-0 space-y-3">
+        {/* Open Blockers */}
+        {openBlockers.length > 0 && !isCompleted && (
+          <div className="flex items-start gap-1.5 text-xs sm:text-sm text-red-600">
+            <Lock className="w-3 h-3 sm:w-4 sm:h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Blocked by {openBlockers.map(blocker => `"${blocker.title}"`).join(', ')}
+            </span>
+          </div>
+        )}
+
+        {/* Backlinks */}
+        {backlinks.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 text-xs sm:text-sm">
+            <span className="text-muted-foreground">Referenced by</span>
+            {backlinks.map(backlink => (
+              <TaskMentionLink
+                key={backlink.id}
+                task={backlink}
+                label={backlink.title}
+                statuses={statuses}
+                priorities={priorities}
+                onOpen={onOpenTask}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Tags */}
+        {taskTags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5" aria-label="Tags">
+            {taskTags.map(tag => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+          </div>
+        )}
+
+        {filledFields.length > 0 && (
+          <dl className="flex flex-wrap gap-x-4 gap-y-1 text-xs sm:text-sm" aria-label="Custom fields">
+            {filledFields.map(field => (
+              <div key={field.id} className="flex items-center gap-1 min-w-0">
+                <dt className="text-muted-foreground">{field.name}:</dt>
+                <dd className="font-medium truncate">{formatCustomFieldValue(field, customFields[field.id])}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {attachments.length > 0 && (
+          <ul className="grid grid-cols-4 sm:grid-cols-6 gap-2" aria-label="Attachments">
+            {attachments.map(attachment => (
+              <li key={attachment.id}>
+                <AttachmentThumbnail attachment={attachment} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Checklist Progress */}
+        {checklistProgress.total > 0 && (
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setShowChecklist(!showChecklist)}
+              className="flex w-full items-center gap-2 text-xs sm:text-sm text-muted-foreground hover:text-foreground transition-colors"
+              aria-expanded={showChecklist}
+              aria-label={`Checklist: ${checklistProgress.completed} of ${checklistProgress.total} done`}
+            >
+              <ListChecks className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span className="font-medium tabular-nums">
+                {checklistProgress.completed}/{checklistProgress.total}
+              </span>
+              <div className="flex-1 bg-muted rounded-full h-1.5 overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all duration-300"
+                  style={{ width: `${checklistProgress.percent}%` }}
+                />
+              </div>
+              <ChevronDown className={`w-3 h-3 sm:w-4 sm:h-4 transition-transform duration-200 ${showChecklist ? 'rotate-180' : ''}`} />
+            </button>
+            {showChecklist && (
+              <ul className="space-y-1.5 pl-1 animate-in slide-in-from-top-1 duration-200">
+                {checklist.map(item => (
+                  <li key={item.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={item.isCompleted}
+                      onCheckedChange={() => onToggleChecklistItem(id, item.id)}
+                      disabled={!!deletedAt}
+                      aria-label={`Mark "${item.text}" as ${item.isCompleted ? 'not done' : 'done'}`}
+                    />
+                    <span className={item.isCompleted ? 'line-through text-muted-foreground' : ''}>
+                      {item.text}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Date Information - Stack on mobile */}
         <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 text-xs sm:text-sm">
           {dueDate && (
@@ -123,7 +332,7 @@ export const TaskCard = ({
               ${isOverdue ? 'text-red-600 animate-pulse' : 'text-muted-foreground'}
             `}>
               <Calendar className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
-              <span className="font-medium">Due: {formatDate(dueDate)}</span>
+              <span className="font-medium">Due: {formatDueDate(taskData)}</span>
               {isOverdue && (
                 <span className="text-red-600 font-semibold animate-in fade-in-0 slide-in-from-right-1">
                   (Overdue)
@@ -131,39 +340,164 @@ export const TaskCard = ({
               )}
             </div>
           )}
+          {startDate && (
+            <div className={`flex items-center gap-1.5 ${isTaskScheduled(taskData) ? 'text-blue-600' : 'text-muted-foreground'}`}>
+              <CalendarClock className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span>Starts: {parseDateKey(startDate).toLocaleDateString()}</span>
+            </div>
+          )}
           <div className="flex items-center gap-1.5 text-muted-foreground">
             <Clock className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
             <span>Created: {formatDate(createdAt)}</span>
           </div>
+          {completedAt ? (
+            <div className="flex items-center gap-1.5 text-green-700">
+              <CheckCircle2 className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span title={new Date(completedAt).toLocaleString()}>Completed: {formatDate(completedAt)}</span>
+            </div>
+          ) : updatedAt > createdAt && (
+            <div className="flex items-center gap-1.5 text-muted-foreground">
+              <Edit className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span title={new Date(updatedAt).toLocaleString()}>
+                Updated {formatDistanceToNow(updatedAt, { addSuffix: true })}
+              </span>
+            </div>
+          )}
+          {repeat && (
+            <div className="flex items-center gap-1.5 text-muted-foreground">
+              <Repeat className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span>{describeRepeatRule(repeat, dueDate)}</span>
+            </div>
+          )}
+          {(estimateMinutes || trackedMs > 0 || isTracking) && (
+            <div className={`flex items-center gap-1.5 ${
+              isOverEstimate ? 'text-red-600' : isTracking ? 'text-primary' : 'text-muted-foreground'
+            }`}>
+              <Timer className={`w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0 ${isTracking ? 'animate-pulse' : ''}`} />
+              <span>
+                {formatDuration(trackedMs, isTracking)}
+                {estimateMinutes ? ` / ${formatDuration(estimateToMs(estimateMinutes))} est.` : ' tracked'}
+              </span>
+            </div>
+          )}
         </div>
         
-        {/* Action Buttons - Better mobile layout */}
-        <div className="flex items-center justify-end gap-1.5 pt-2 border-t border-border/50">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onEdit(taskData)}
-            className="h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105 
-              hover:bg-blue-50 hover:border-blue-200 hover:text-blue-700 group-hover:opacity-100 
-              opacity-70 focus:opacity-100"
-            aria-label={`Edit task "${title}"`}
-          >
-            <Edit className="w-3 h-3 sm:w-4 sm:h-4" />
-            <span className="ml-1 sm:hidden text-xs">Edit</span>
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onDelete(id)}
-            className="h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105 
-              text-red-600 hover:text-red-700 hover:bg-red-50 hover:border-red-200 
-              group-hover:opacity-100 opacity-70 focus:opacity-100"
-            aria-label={`Delete task "${title}"`}
-          >
-            <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
-            <span className="ml-1 sm:hidden text-xs">Delete</span>
-          </Button>
-        </div>
+        {/* Status and Action Buttons - Better mobile layout */}
+        {deletedAt ? (
+          <div className="flex items-center justify-end gap-1.5 pt-2 border-t border-border/50">
+            <span className="mr-auto text-xs text-muted-foreground">
+              Deleted {formatDistanceToNow(deletedAt, { addSuffix: true })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onRestore(id)}
+              className="h-8 px-3 transition-all duration-200 hover:scale-105"
+              aria-label={`Restore task "${title}"`}
+            >
+              <ArchiveRestore className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+              <span className="text-xs">Restore</span>
+            </Button>
+            <ConfirmDialog
+              trigger={
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-3 transition-all duration-200 hover:scale-105
+                    text-red-600 hover:text-red-700 hover:bg-red-50 hover:border-red-200"
+                  aria-label={`Delete task "${title}" forever`}
+                >
+                  <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                  <span className="text-xs">Delete forever</span>
+                </Button>
+              }
+              title="Delete this task forever?"
+              description={`"${title}" and its attachments will be removed permanently. You can undo this until you close the page.`}
+              confirmLabel="Delete forever"
+              onConfirm={() => onDelete(id)}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center justify-end gap-1.5 pt-2 border-t border-border/50">
+            <StatusSelect
+              value={status}
+              statuses={statuses}
+              onChange={(newStatus) => onChangeStatus(id, newStatus)}
+              label={`Status of task "${title}"`}
+              className="mr-auto"
+            />
+            <CommentThread
+              taskTitle={title}
+              comments={comments}
+              authorId={currentAuthorId}
+              people={people}
+              onChange={(updatedComments) => onChangeComments(id, updatedComments)}
+            />
+            <TaskHistory
+              task={taskData}
+              currentAuthorId={currentAuthorId}
+              people={people}
+              describeValue={describeHistoryValue}
+              onRevert={onRevertChange}
+            />
+            <Button
+              variant={isTracking ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onToggleTimer(id)}
+              disabled={isCompleted && !isTracking}
+              className={`h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105 
+                ${isTracking ? '' : 'group-hover:opacity-100 opacity-70 focus:opacity-100'}`}
+              aria-label={`${isTracking ? 'Stop' : 'Start'} tracking time on "${title}"`}
+              aria-pressed={isTracking}
+            >
+              {isTracking
+                ? <Square className="w-3 h-3 sm:w-4 sm:h-4" />
+                : <Play className="w-3 h-3 sm:w-4 sm:h-4" />
+              }
+              <span className="ml-1 sm:hidden text-xs">{isTracking ? 'Stop' : 'Track'}</span>
+            </Button>
+            {(isCompleted || archivedAt) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSetArchived(id, !archivedAt)}
+                className="h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105 
+                  group-hover:opacity-100 opacity-70 focus:opacity-100"
+                aria-label={`${archivedAt ? 'Unarchive' : 'Archive'} task "${title}"`}
+              >
+                {archivedAt
+                  ? <ArchiveRestore className="w-3 h-3 sm:w-4 sm:h-4" />
+                  : <Archive className="w-3 h-3 sm:w-4 sm:h-4" />
+                }
+                <span className="ml-1 sm:hidden text-xs">{archivedAt ? 'Unarchive' : 'Archive'}</span>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onEdit(taskData)}
+              className="h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105 
+                hover:bg-blue-50 hover:border-blue-200 hover:text-blue-700 group-hover:opacity-100 
+                opacity-70 focus:opacity-100"
+              aria-label={`Edit task "${title}"`}
+            >
+              <Edit className="w-3 h-3 sm:w-4 sm:h-4" />
+              <span className="ml-1 sm:hidden text-xs">Edit</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onDelete(id)}
+              className="h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105 
+                text-red-600 hover:text-red-700 hover:bg-red-50 hover:border-red-200 
+                group-hover:opacity-100 opacity-70 focus:opacity-100"
+              aria-label={`Delete task "${title}"`}
+            >
+              <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+              <span className="ml-1 sm:hidden text-xs">Delete</span>
+            </Button>
+          </div>
+        )}
       </CardContent>
       
       {/* Completion overlay animation */}
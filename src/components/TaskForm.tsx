@@ -1,65 +1,169 @@
 import { useState, useEffect } from "react";
+import { startOfDay } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Task, TaskFormData, Priority } from "@/types/Task";
-import { Save, X, AlertCircle } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MentionTextarea } from "@/components/MentionTextarea";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { ChecklistEditor } from "@/components/ChecklistEditor";
+import { TagPicker } from "@/components/TagPicker";
+import { RepeatRuleEditor } from "@/components/RepeatRuleEditor";
+import { BlockerPicker } from "@/components/BlockerPicker";
+import { CustomFieldInputs } from "@/components/CustomFieldInputs";
+import { AttachmentDropzone } from "@/components/AttachmentDropzone";
+import { AssigneePicker } from "@/components/AssigneePicker";
+import { Task, TaskFormData, Priority, EstimateUnit } from "@/types/Task";
+import { Tag } from "@/types/Tag";
+import { CustomFieldDefinition } from "@/types/CustomField";
+import { Person } from "@/types/Person";
+import { PriorityLevel } from "@/types/Priority";
+import { StatusDefinition } from "@/types/Status";
+import { Project } from "@/types/Project";
+import { createId } from "@/lib/utils";
+import { DEFAULT_STATUS, DONE_STATUS, isTaskDone } from "@/lib/status";
+import { wouldCreateCycle } from "@/lib/dependencies";
+import { getDueInstant, getTodayKey, parseDateKey } from "@/lib/dates";
+import { parseEstimate, splitEstimate } from "@/lib/timeTracking";
+import { cleanCustomFieldValues } from "@/lib/customFields";
+import { toggleTaskListItem } from "@/lib/markdown";
+import { getDefaultPriority, getPriorityColor } from "@/lib/priorities";
+import { Save, X, AlertCircle, CheckCircle2 } from "lucide-react";
 
 interface TaskFormProps {
-  onSubmit: (task: Task) => void;
+  onCreate: (task: Task) => void;
+  // Gets only the fields the form changed, so edits made elsewhere while it was open are kept
+  onUpdate: (id: string, changes: Partial<Task>) => void;
   onCancel: () => void;
   editingTask?: Task | null;
+  tags: Tag[];
+  onCreateTag: (name: string, color: string) => Tag;
+  projects: Project[];
+  defaultProjectId?: string;
+  customFields: CustomFieldDefinition[];
+  people: Person[];
+  priorities: PriorityLevel[];
+  statuses: StatusDefinition[];
+  tasks: Task[];
 }
 
-export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) => {
-  const [formData, setFormData] = useState<TaskFormData>({
-    title: '',
-    description: '',
-    priority: 'medium' as Priority,
-    dueDate: ''
-  });
+// Radix Select items can't use an empty value, so the Inbox gets a placeholder one
+const INBOX_VALUE = 'inbox';
+
+const EMPTY_FORM: TaskFormData = {
+  title: '',
+  description: '',
+  priority: '',
+  dueDate: '',
+  dueTime: '',
+  startDate: '',
+  checklist: [],
+  tagIds: [],
+  projectId: '',
+  repeat: null,
+  blockedBy: [],
+  estimate: '',
+  estimateUnit: 'minutes',
+  customFields: {},
+  attachments: [],
+  assigneeIds: []
+};
+
+// The priority and project a new task starts with depend on the workspace and where the form was opened
+const createEmptyForm = (priority: Priority, projectId: string): TaskFormData => ({ ...EMPTY_FORM, priority, projectId });
+
+type EditableTaskField = 'title' | 'description' | 'priority' | 'dueDate' | 'dueTime' | 'startDate' | 'checklist'
+  | 'tagIds' | 'projectId' | 'repeat' | 'blockedBy' | 'estimateMinutes' | 'customFields' | 'attachments' | 'assigneeIds';
+
+// The form fields each task field is built from; a task field is saved only when one of them changed
+const TASK_FIELD_SOURCES: Record<EditableTaskField, (keyof TaskFormData)[]> = {
+  title: ['title'],
+  description: ['description'],
+  priority: ['priority'],
+  dueDate: ['dueDate'],
+  dueTime: ['dueDate', 'dueTime'],
+  startDate: ['startDate'],
+  checklist: ['checklist'],
+  tagIds: ['tagIds'],
+  projectId: ['projectId'],
+  repeat: ['repeat', 'dueDate'],
+  blockedBy: ['blockedBy'],
+  estimateMinutes: ['estimate', 'estimateUnit'],
+  customFields: ['customFields'],
+  attachments: ['attachments'],
+  assigneeIds: ['assigneeIds']
+};
+
+const toFormData = (task: Task): TaskFormData => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  dueDate: task.dueDate || '',
+  dueTime: task.dueTime || '',
+  startDate: task.startDate || '',
+  checklist: task.checklist || [],
+  tagIds: task.tagIds || [],
+  projectId: task.projectId || '',
+  repeat: task.repeat || null,
+  blockedBy: task.blockedBy || [],
+  ...splitEstimate(task.estimateMinutes),
+  customFields: task.customFields || {},
+  attachments: task.attachments || [],
+  assigneeIds: task.assigneeIds || []
+});
+
+export const TaskForm = ({
+  onCreate,
+  onUpdate,
+  onCancel,
+  editingTask,
+  tags,
+  onCreateTag,
+  projects,
+  defaultProjectId = '',
+  customFields,
+  people,
+  priorities,
+  statuses,
+  tasks
+}: TaskFormProps) => {
+  const defaultPriority = getDefaultPriority(priorities).id;
+  const [formData, setFormData] = useState(() => createEmptyForm(defaultPriority, defaultProjectId));
   
   const [errors, setErrors] = useState<Partial<Record<keyof TaskFormData, string>>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [showCompleteOffer, setShowCompleteOffer] = useState(false);
+  const [completeOnSave, setCompleteOnSave] = useState(false);
+  const [descriptionTab, setDescriptionTab] = useState('write');
 
   // Populate form when editing
   useEffect(() => {
     if (editingTask) {
-      const newFormData = {
-        title: editingTask.title,
-        description: editingTask.description,
-        priority: editingTask.priority,
-        dueDate: editingTask.dueDate ? new Date(editingTask.dueDate).toISOString().split('T')[0] : ''
-      };
-      setFormData(newFormData);
+      setFormData(toFormData(editingTask));
       setHasChanges(false);
     } else {
       setHasChanges(false);
     }
+    setShowCompleteOffer(false);
+    setCompleteOnSave(false);
+    setDescriptionTab('write');
   }, [editingTask]);
 
   // Track form changes
   useEffect(() => {
-    const initialData = editingTask ? {
-      title: editingTask.title,
-      description: editingTask.description,
-      priority: editingTask.priority,
-      dueDate: editingTask.dueDate ? new Date(editingTask.dueDate).toISOString().split('T')[0] : ''
-    } : {
-      title: '',
-      description: '',
-      priority: 'medium' as Priority,
-      dueDate: ''
-    };
-    
+    const initialData = editingTask ? toFormData(editingTask) : createEmptyForm(defaultPriority, defaultProjectId);
     const hasFormChanges = JSON.stringify(formData) !== JSON.stringify(initialData);
     setHasChanges(hasFormChanges);
-  }, [formData, editingTask]);
+  }, [formData, editingTask, defaultProjectId, defaultPriority]);
+
+  // Day the repeat rule is anchored to: the due date, or today when there is none
+  const repeatAnchorDate = (() => {
+    return formData.dueDate ? parseDateKey(formData.dueDate) : new Date();
+  })();
 
   const validateForm = (): boolean => {
     const newErrors: Partial<Record<keyof TaskFormData, string>> = {};
@@ -70,13 +174,46 @@ export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) =>
       newErrors.title = 'Title must be at least 3 characters long';
     }
 
-    if (formData.dueDate) {
-      const dueDate = new Date(formData.dueDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      if (dueDate < today) {
+    // An overdue task can still be edited as long as its due date is left alone
+    const isDueChanged = !editingTask
+      || formData.dueDate !== (editingTask.dueDate || '')
+      || formData.dueTime !== (editingTask.dueTime || '');
+    if (formData.dueDate && isDueChanged) {
+      // Date keys compare correctly as plain strings
+      if (formData.dueDate < getTodayKey()) {
         newErrors.dueDate = 'Due date cannot be in the past';
+      } else if (formData.dueTime && getDueInstant(formData) < new Date()) {
+        newErrors.dueDate = 'Due time has already passed today';
+      }
+    }
+
+    if (formData.startDate && formData.dueDate && formData.startDate > formData.dueDate) {
+      newErrors.startDate = 'Start date cannot be after the due date';
+    }
+
+    if (formData.estimate.trim() && !parseEstimate(formData.estimate, formData.estimateUnit)) {
+      newErrors.estimate = 'Estimate must be a positive number';
+    }
+
+    if (formData.repeat) {
+      const { frequency, weekDays, end } = formData.repeat;
+      if (frequency === 'weekly' && !weekDays?.length) {
+        newErrors.repeat = 'Pick at least one day of the week';
+      } else if (end.type === 'date' && end.date < startOfDay(repeatAnchorDate).getTime()) {
+        newErrors.repeat = 'Repeat end date cannot be before the due date';
+      }
+    }
+
+    if (editingTask && formData.blockedBy.length > 0) {
+      // Other tasks may have changed since the picker was opened, so check the final links again
+      const tasksWithDraft = tasks.map(task =>
+        task.id === editingTask.id ? { ...task, blockedBy: formData.blockedBy } : task
+      );
+      const cyclicBlocker = formData.blockedBy
+        .map(blockerId => tasks.find(task => task.id === blockerId))
+        .find(blocker => blocker && wouldCreateCycle(tasksWithDraft, editingTask.id, blocker.id));
+      if (cyclicBlocker) {
+        newErrors.blockedBy = `"${cyclicBlocker.title}" already depends on this task, so it can't block it`;
       }
     }
 
@@ -96,38 +233,56 @@ export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) =>
     // Simulate brief loading for better UX
     await new Promise(resolve => setTimeout(resolve, 200));
 
-    const task: Task = {
-      id: editingTask?.id || `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    const customFieldValues = cleanCustomFieldValues(formData.customFields, customFields);
+    const fields: Pick<Task, EditableTaskField> = {
       title: formData.title.trim(),
       description: formData.description?.trim() || '',
       priority: formData.priority,
-      isCompleted: editingTask?.isCompleted || false,
-      dueDate: formData.dueDate ? new Date(formData.dueDate).getTime() : undefined,
-      createdAt: editingTask?.createdAt || Date.now()
+      dueDate: formData.dueDate || undefined,
+      dueTime: formData.dueDate && formData.dueTime ? formData.dueTime : undefined,
+      startDate: formData.startDate || undefined,
+      checklist: formData.checklist,
+      tagIds: formData.tagIds.filter(tagId => tags.some(tag => tag.id === tagId)),
+      projectId: projects.some(project => project.id === formData.projectId) ? formData.projectId : undefined,
+      repeat: formData.repeat ? { ...formData.repeat, monthDay: repeatAnchorDate.getDate() } : undefined,
+      blockedBy: formData.blockedBy.filter(blockerId => tasks.some(task => task.id === blockerId)),
+      estimateMinutes: parseEstimate(formData.estimate, formData.estimateUnit),
+      customFields: Object.keys(customFieldValues).length > 0 ? customFieldValues : undefined,
+      attachments: formData.attachments.length > 0 ? formData.attachments : undefined,
+      assigneeIds: formData.assigneeIds.filter(personId => people.some(person => person.id === personId))
     };
 
-    onSubmit(task);
+    if (editingTask) {
+      const initialData = toFormData(editingTask);
+      const changedFields = (Object.keys(TASK_FIELD_SOURCES) as EditableTaskField[]).filter(field =>
+        TASK_FIELD_SOURCES[field].some(key => JSON.stringify(formData[key]) !== JSON.stringify(initialData[key]))
+      );
+      const changes: Partial<Task> = Object.fromEntries(changedFields.map(field => [field, fields[field]]));
+      onUpdate(editingTask.id, completeOnSave ? { ...changes, status: DONE_STATUS } : changes);
+    } else {
+      onCreate({
+        ...fields,
+        id: createId('task'),
+        status: completeOnSave ? DONE_STATUS : DEFAULT_STATUS,
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+      });
+    }
     
     // Reset form
-    setFormData({
-      title: '',
-      description: '',
-      priority: 'medium',
-      dueDate: ''
-    });
+    setFormData(createEmptyForm(defaultPriority, defaultProjectId));
     setErrors({});
+    setShowCompleteOffer(false);
+    setCompleteOnSave(false);
     setIsSubmitting(false);
     setHasChanges(false);
   };
 
   const handleCancel = () => {
-    setFormData({
-      title: '',
-      description: '',
-      priority: 'medium',
-      dueDate: ''
-    });
+    setFormData(createEmptyForm(defaultPriority, defaultProjectId));
     setErrors({});
+    setShowCompleteOffer(false);
+    setCompleteOnSave(false);
     setHasChanges(false);
     setIsSubmitting(false);
     onCancel();
@@ -180,20 +335,51 @@ export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) =>
 
           {/* Description Field */}
           <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-100">
-            <Label htmlFor="description" className="text-sm font-medium">
-              Description
-            </Label>
-            <Textarea
-              id="description"
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              placeholder="Add more details... (optional)"
-              disabled={isSubmitting}
-              rows={3}
-              maxLength={500}
-              className="transition-all duration-200 focus:scale-[1.01] resize-none 
-                focus:border-primary hover:border-primary/50"
-            />
+            <Tabs value={descriptionTab} onValueChange={setDescriptionTab}>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="description" className="text-sm font-medium">
+                  Description
+                </Label>
+                <TabsList className="h-8">
+                  <TabsTrigger value="write" className="h-6 px-2 text-xs">Write</TabsTrigger>
+                  <TabsTrigger value="preview" className="h-6 px-2 text-xs">Preview</TabsTrigger>
+                </TabsList>
+              </div>
+              <TabsContent value="write">
+                <MentionTextarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(description) => setFormData({ ...formData, description })}
+                  tasks={tasks}
+                  excludeTaskId={editingTask?.id}
+                  placeholder="Add more details... Markdown works, and # links another task (optional)"
+                  disabled={isSubmitting}
+                  rows={3}
+                  maxLength={500}
+                  className="transition-all duration-200 focus:scale-[1.01] resize-none 
+                    focus:border-primary hover:border-primary/50"
+                />
+              </TabsContent>
+              <TabsContent value="preview">
+                {formData.description?.trim() ? (
+                  <MarkdownContent
+                    text={formData.description}
+                    tasks={tasks}
+                    statuses={statuses}
+                    priorities={priorities}
+                    onToggleTaskItem={(line) => setFormData({
+                      ...formData,
+                      description: toggleTaskListItem(formData.description, line)
+                    })}
+                    className="min-h-[80px] rounded-md border border-input px-3 py-2 text-sm text-muted-foreground"
+                  />
+                ) : (
+                  <p className="min-h-[80px] rounded-md border border-input px-3 py-2 text-sm text-muted-foreground">
+                    Nothing to preview
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
             <div className="text-xs text-muted-foreground text-right">
               {formData.description?.length || 0}/500
             </div>
@@ -216,24 +402,14 @@ export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) =>
                   <SelectValue placeholder="Select priority" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="low" className="focus:bg-green-50">
-                    <div className="flex items-center gap-2">
-                      <div className="w-2 h-2 rounded-full bg-green-500" />
-                      Low Priority
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="medium" className="focus:bg-yellow-50">
-                    <div className="flex items-center gap-2">
-                      <div className="w-2 h-2 rounded-full bg-yellow-500" />
-                      Medium Priority
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="high" className="focus:bg-red-50">
-                    <div className="flex items-center gap-2">
-                      <div className="w-2 h-2 rounded-full bg-red-500" />
-                      High Priority
-                    </div>
-                  </SelectItem>
+                  {priorities.map(level => (
+                    <SelectItem key={level.id} value={level.id}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getPriorityColor(level.id) }} />
+                        {level.label}
+                      </div>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -241,20 +417,33 @@ export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) =>
             {/* Due Date Field */}
             <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
               <Label htmlFor="dueDate" className="text-sm font-medium">Due Date</Label>
-              <Input
-                id="dueDate"
-                type="date"
-                value={formData.dueDate}
-                onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
-                disabled={isSubmitting}
-                min={new Date().toISOString().split('T')[0]}
-                className={`transition-all duration-200 focus:scale-[1.01] ${
-                  errors.dueDate 
-                    ? 'border-red-500 bg-red-50/50 focus:border-red-500' 
-                    : 'focus:border-primary hover:border-primary/50'
-                }`}
-                aria-describedby={errors.dueDate ? "date-error" : undefined}
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="dueDate"
+                  type="date"
+                  value={formData.dueDate}
+                  onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                  disabled={isSubmitting}
+                  // The browser would otherwise refuse to submit an overdue task that keeps its date
+                  min={editingTask?.dueDate && editingTask.dueDate < getTodayKey() ? editingTask.dueDate : getTodayKey()}
+                  className={`flex-1 transition-all duration-200 focus:scale-[1.01] ${
+                    errors.dueDate 
+                      ? 'border-red-500 bg-red-50/50 focus:border-red-500' 
+                      : 'focus:border-primary hover:border-primary/50'
+                  }`}
+                  aria-describedby={errors.dueDate ? "date-error" : undefined}
+                />
+                {/* Optional; without a time the task is due at the end of the day */}
+                <Input
+                  id="dueTime"
+                  type="time"
+                  value={formData.dueTime}
+                  onChange={(e) => setFormData({ ...formData, dueTime: e.target.value })}
+                  disabled={isSubmitting || !formData.dueDate}
+                  className="w-32 transition-all duration-200 focus:border-primary hover:border-primary/50"
+                  aria-label="Due time (optional)"
+                />
+              </div>
               {errors.dueDate && (
                 <Alert variant="destructive" className="py-2 animate-in slide-in-from-top-2 duration-200">
                   <AlertCircle className="h-4 w-4" />
@@ -266,6 +455,238 @@ export const TaskForm = ({ onSubmit, onCancel, editingTask }: TaskFormProps) =>
             </div>
           </div>
 
+          {/* Start Date Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="startDate" className="text-sm font-medium">Start Date</Label>
+            <Input
+              id="startDate"
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+              disabled={isSubmitting}
+              max={formData.dueDate || undefined}
+              className={`transition-all duration-200 focus:scale-[1.01] ${
+                errors.startDate
+                  ? 'border-red-500 bg-red-50/50 focus:border-red-500'
+                  : 'focus:border-primary hover:border-primary/50'
+              }`}
+              aria-describedby={errors.startDate ? "start-date-error" : "start-date-hint"}
+            />
+            {errors.startDate ? (
+              <Alert variant="destructive" className="py-2 animate-in slide-in-from-top-2 duration-200">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="text-sm" id="start-date-error">
+                  {errors.startDate}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <p className="text-xs text-muted-foreground" id="start-date-hint">
+                Optional. The task stays out of the main list until this day.
+              </p>
+            )}
+          </div>
+
+          {/* Estimate Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="estimate" className="text-sm font-medium">Time Estimate</Label>
+            <div className="flex gap-2">
+              <Input
+                id="estimate"
+                type="number"
+                min={0}
+                step="any"
+                value={formData.estimate}
+                onChange={(e) => setFormData({ ...formData, estimate: e.target.value })}
+                disabled={isSubmitting}
+                placeholder="Optional"
+                className={`flex-1 transition-all duration-200 focus:scale-[1.01] ${
+                  errors.estimate
+                    ? 'border-red-500 bg-red-50/50 focus:border-red-500'
+                    : 'focus:border-primary hover:border-primary/50'
+                }`}
+                aria-describedby={errors.estimate ? "estimate-error" : undefined}
+              />
+              <Select
+                value={formData.estimateUnit}
+                onValueChange={(estimateUnit: EstimateUnit) => setFormData({ ...formData, estimateUnit })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger className="w-32" aria-label="Estimate unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="minutes">Minutes</SelectItem>
+                  <SelectItem value="hours">Hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {errors.estimate && (
+              <Alert variant="destructive" className="py-2 animate-in slide-in-from-top-2 duration-200">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="text-sm" id="estimate-error">
+                  {errors.estimate}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          {/* Repeat Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="repeat" className="text-sm font-medium">Repeat</Label>
+            <RepeatRuleEditor
+              value={formData.repeat}
+              onChange={(repeat) => setFormData({ ...formData, repeat })}
+              anchorDate={repeatAnchorDate}
+              disabled={isSubmitting}
+            />
+            {errors.repeat && (
+              <Alert variant="destructive" className="py-2 animate-in slide-in-from-top-2 duration-200">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="text-sm" id="repeat-error">
+                  {errors.repeat}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          {/* Project Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="project" className="text-sm font-medium">Project</Label>
+            <Select
+              value={formData.projectId || INBOX_VALUE}
+              onValueChange={(value) => setFormData({ ...formData, projectId: value === INBOX_VALUE ? '' : value })}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger
+                id="project"
+                className="transition-all duration-200 hover:border-primary/50 focus:border-primary"
+              >
+                <SelectValue placeholder="Select project" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INBOX_VALUE}>Inbox</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Assignees Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="assignees" className="text-sm font-medium">Assignees</Label>
+            <AssigneePicker
+              people={people}
+              selectedIds={formData.assigneeIds}
+              onChange={(assigneeIds) => setFormData({ ...formData, assigneeIds })}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Tags Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="tags" className="text-sm font-medium">
+              Tags
+            </Label>
+            <TagPicker
+              tags={tags}
+              selectedTagIds={formData.tagIds}
+              onChange={(tagIds) => setFormData({ ...formData, tagIds })}
+              onCreateTag={onCreateTag}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Blocked By Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="blockedBy" className="text-sm font-medium">
+              Blocked By
+            </Label>
+            <BlockerPicker
+              taskId={editingTask?.id}
+              tasks={tasks}
+              selectedIds={formData.blockedBy}
+              onChange={(blockedBy) => setFormData({ ...formData, blockedBy })}
+              disabled={isSubmitting}
+            />
+            {errors.blockedBy && (
+              <Alert variant="destructive" className="py-2 animate-in slide-in-from-top-2 duration-200">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="text-sm" id="blocked-by-error">
+                  {errors.blockedBy}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          {/* Custom Fields */}
+          {customFields.length > 0 && (
+            <div className="animate-in slide-in-from-left-2 duration-300 delay-150">
+              <CustomFieldInputs
+                fields={customFields}
+                values={formData.customFields}
+                onChange={(values) => setFormData({ ...formData, customFields: values })}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          {/* Attachments Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-150">
+            <Label htmlFor="attachments" className="text-sm font-medium">Attachments</Label>
+            <AttachmentDropzone
+              attachments={formData.attachments}
+              onChange={(attachments) => setFormData({ ...formData, attachments })}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Checklist Field */}
+          <div className="space-y-2 animate-in slide-in-from-left-2 duration-300 delay-175">
+            <Label htmlFor="checklist" className="text-sm font-medium">
+              Checklist
+            </Label>
+            <ChecklistEditor
+              items={formData.checklist}
+              onChange={(checklist) => {
+                setFormData({ ...formData, checklist });
+                if (checklist.some(item => !item.isCompleted)) {
+                  setShowCompleteOffer(false);
+                }
+              }}
+              onAllCompleted={() => {
+                if (!(editingTask && isTaskDone(editingTask)) && !completeOnSave) {
+                  setShowCompleteOffer(true);
+                }
+              }}
+              disabled={isSubmitting}
+            />
+            {showCompleteOffer && (
+              <Alert className="py-2 animate-in slide-in-from-top-2 duration-200">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  All checklist items are done. Complete the task too?
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setCompleteOnSave(true);
+                      setShowCompleteOffer(false);
+                    }}
+                  >
+                    Mark task complete
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+            {completeOnSave && (
+              <p className="text-xs text-green-600">The task will be marked complete when saved.</p>
+            )}
+          </div>
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3 pt-6 border-t border-border/50 
             animate-in slide-in-from-bottom-2 duration-300 delay-200">
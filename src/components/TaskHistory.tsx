@@ -0,0 +1,95 @@
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from "@/components/ui/sheet";
+import { ArrowRight, History, RotateCcw } from "lucide-react";
+import { Task, TaskChange } from "@/types/Task";
+import { Person } from "@/types/Person";
+import { HISTORY_FIELD_LABELS, isSameValue } from "@/lib/history";
+import { describeAuthor } from "@/lib/comments";
+
+interface TaskHistoryProps {
+  task: Task;
+  currentAuthorId: string;
+  people: Person[];
+  describeValue: (field: keyof Task, value: unknown) => string;
+  onRevert: (taskId: string, change: TaskChange) => void;
+}
+
+export const TaskHistory = ({ task, currentAuthorId, people, describeValue, onRevert }: TaskHistoryProps) => {
+  // Newest first
+  const history = [...(task.history || [])].reverse();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 sm:px-2 sm:w-8 transition-all duration-200 hover:scale-105
+            group-hover:opacity-100 opacity-70 focus:opacity-100"
+          aria-label={`History of "${task.title}"`}
+        >
+          <History className="w-3 h-3 sm:w-4 sm:h-4" />
+          <span className="ml-1 sm:hidden text-xs">History</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription className="truncate">{task.title}</SheetDescription>
+        </SheetHeader>
+
+        <ol className="flex-1 space-y-2 overflow-auto pr-1" aria-label="Change history">
+          {history.length === 0 && (
+            <li className="py-8 text-center text-sm text-muted-foreground">
+              No changes since this task was created.
+            </li>
+          )}
+          {history.map(change => {
+            const isCurrent = isSameValue(task[change.field], change.from);
+            return (
+              <li key={change.id} className="rounded-md border border-border/50 p-3 space-y-1.5">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {HISTORY_FIELD_LABELS[change.field] || change.field}
+                  </span>
+                  <span>
+                    by {change.authorId === currentAuthorId ? 'you' : describeAuthor(change.authorId, currentAuthorId, people)},{' '}
+                    <time title={new Date(change.changedAt).toLocaleString()}>
+                      {formatDistanceToNow(change.changedAt, { addSuffix: true })}
+                    </time>
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="truncate text-muted-foreground line-through">
+                    {describeValue(change.field, change.from)}
+                  </span>
+                  <ArrowRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{describeValue(change.field, change.to)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRevert(task.id, change)}
+                    disabled={isCurrent}
+                    className="ml-auto h-7 shrink-0 px-2 text-xs"
+                    aria-label={`Restore previous ${HISTORY_FIELD_LABELS[change.field] || change.field}`}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,89 @@
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Calendar, Hash, Trash2, Unlink } from "lucide-react";
+import { Task } from "@/types/Task";
+import { StatusDefinition } from "@/types/Status";
+import { PriorityLevel } from "@/types/Priority";
+import { getColorChipStyle } from "@/lib/utils";
+import { getStatusDefinition, isTaskDone } from "@/lib/status";
+import { getPriorityChipStyle, getPriorityLevel } from "@/lib/priorities";
+import { formatDueDate } from "@/lib/dates";
+import { getMarkdownPlainText } from "@/lib/markdown";
+import { isTaskTrashed } from "@/lib/trash";
+
+interface TaskMentionLinkProps {
+  // Missing when the linked task was deleted for good
+  task?: Task;
+  label: string;
+  statuses: StatusDefinition[];
+  priorities: PriorityLevel[];
+  onOpen?: (taskId: string) => void;
+}
+
+const PREVIEW_LENGTH = 140;
+
+export const TaskMentionLink = ({ task, label, statuses, priorities, onOpen }: TaskMentionLinkProps) => {
+  if (!task) {
+    return (
+      <span
+        className="inline-flex items-center gap-0.5 rounded px-1 text-muted-foreground line-through
+          decoration-muted-foreground/60 bg-muted/50"
+        title="This task no longer exists"
+      >
+        <Unlink className="w-3 h-3 shrink-0" />
+        {label || 'Deleted task'}
+      </span>
+    );
+  }
+
+  const status = getStatusDefinition(statuses, task.status);
+  const priority = getPriorityLevel(priorities, task.priority);
+  const description = getMarkdownPlainText(task.description);
+
+  return (
+    <HoverCard openDelay={300}>
+      <HoverCardTrigger asChild>
+        <a
+          href={`#${task.id}`}
+          onClick={(e) => {
+            e.preventDefault();
+            onOpen?.(task.id);
+          }}
+          className={`inline-flex items-center gap-0.5 rounded px-1 font-medium text-primary bg-primary/10
+            hover:bg-primary/20 hover:underline transition-colors
+            ${isTaskDone(task) || isTaskTrashed(task) ? 'line-through' : ''}`}
+        >
+          <Hash className="w-3 h-3 shrink-0" />
+          {task.title}
+        </a>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 space-y-2 text-sm" align="start">
+        <p className="font-medium leading-tight">{task.title}</p>
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="px-2 py-0.5 rounded-full border" style={getColorChipStyle(status.color)}>
+            {status.label}
+          </span>
+          <span className="px-2 py-0.5 rounded-full border" style={getPriorityChipStyle(priority.id)}>
+            {priority.label}
+          </span>
+          {isTaskTrashed(task) && (
+            <span className="inline-flex items-center gap-1 text-muted-foreground">
+              <Trash2 className="w-3 h-3" />
+              In the Trash
+            </span>
+          )}
+        </div>
+        {task.dueDate && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Calendar className="w-3 h-3" />
+            Due {formatDueDate(task)}
+          </p>
+        )}
+        {description && (
+          <p className="text-xs text-muted-foreground leading-relaxed">
+            {description.length > PREVIEW_LENGTH ? `${description.slice(0, PREVIEW_LENGTH)}…` : description}
+          </p>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
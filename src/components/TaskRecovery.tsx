@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { AlertTriangle, Download } from "lucide-react";
+import { QuarantinedTask } from "@/lib/taskSchema";
+import { createQuarantineFile } from "@/lib/taskStorage";
+
+interface TaskRecoveryProps {
+  quarantinedTasks: QuarantinedTask[];
+  validCount: number;
+  onContinue: () => void;
+  onDiscard: () => void;
+}
+
+const getRecordTitle = (record: unknown) => {
+  const title = (record as { task?: { title?: unknown }; title?: unknown })?.task?.title
+    ?? (record as { title?: unknown })?.title;
+  return typeof title === 'string' && title.trim() ? title : null;
+};
+
+// Shown after loading when some stored tasks failed validation. The valid tasks are already in
+// use; the bad records wait here until they're downloaded for repair or discarded
+export const TaskRecovery = ({ quarantinedTasks, validCount, onContinue, onDiscard }: TaskRecoveryProps) => {
+  const handleDownload = () => {
+    const url = URL.createObjectURL(createQuarantineFile(quarantinedTasks));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `quarantined-tasks-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-warning" />
+            Some saved tasks couldn't be loaded
+          </CardTitle>
+          <CardDescription>
+            {quarantinedTasks.length} {quarantinedTasks.length === 1 ? 'entry was' : 'entries were'} damaged or
+            in an unknown format and {quarantinedTasks.length === 1 ? 'has' : 'have'} been set aside.
+            Your other {validCount} {validCount === 1 ? 'task is' : 'tasks are'} safe and ready to use.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-sm">
+            {quarantinedTasks.map((quarantined, index) => (
+              <li key={`${quarantined.id}-${index}`} className="px-3 py-2 space-y-0.5">
+                <p className="font-medium truncate">
+                  {getRecordTitle(quarantined.record) || <span className="text-muted-foreground">Untitled entry</span>}
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">{quarantined.id}</span>
+                </p>
+                <p className="text-xs text-destructive break-words">{quarantined.error}</p>
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={handleDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              Download quarantined data
+            </Button>
+            <ConfirmDialog
+              trigger={
+                <Button variant="ghost" className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                  Discard
+                </Button>
+              }
+              title="Discard the quarantined entries?"
+              description="They will be deleted for good. Download them first if you might want to repair them."
+              confirmLabel="Discard"
+              onConfirm={onDiscard}
+            />
+            <Button className="ml-auto" onClick={onContinue}>
+              Continue with {validCount} {validCount === 1 ? 'task' : 'tasks'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Until they're discarded, this screen comes back each time the app starts.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide } from "lucide-react";
+import { CustomFieldDefinition } from "@/types/CustomField";
+import { BUILT_IN_SORT_LABELS, SortDirection, TaskSort, TaskSortKey, getCustomFieldSortKey } from "@/lib/sort";
+
+interface TaskSortMenuProps {
+  sort: TaskSort;
+  customFields: CustomFieldDefinition[];
+  onChange: (sort: TaskSort) => void;
+}
+
+export const TaskSortMenu = ({ sort, customFields, onChange }: TaskSortMenuProps) => {
+  const DirectionIcon = sort.direction === 'asc' ? ArrowUpNarrowWide : ArrowDownWideNarrow;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-10 shrink-0 transition-all duration-200 hover:border-primary/50"
+          aria-label="Sort tasks"
+        >
+          <DirectionIcon className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Sort</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Sort by</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={sort.key}
+          onValueChange={(key) => onChange({ ...sort, key: key as TaskSortKey })}
+        >
+          {Object.entries(BUILT_IN_SORT_LABELS).map(([key, label]) => (
+            <DropdownMenuRadioItem key={key} value={key}>{label}</DropdownMenuRadioItem>
+          ))}
+          {customFields.length > 0 && <DropdownMenuSeparator />}
+          {customFields.map(field => (
+            <DropdownMenuRadioItem key={field.id} value={getCustomFieldSortKey(field.id)}>
+              {field.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={sort.direction}
+          onValueChange={(direction) => onChange({ ...sort, direction: direction as SortDirection })}
+        >
+          <DropdownMenuRadioItem value="asc">Ascending</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="desc">Descending</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        {sort.key === 'manual' && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">
+            Drag tasks to reorder them, or focus one and press Alt+↑/↓.
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { getAttachmentFile } from '@/lib/attachments';
+
+// Object URL for a stored attachment, revoked again when the component unmounts
+export const useAttachmentUrl = (attachmentId: string) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+
+    getAttachmentFile(attachmentId)
+      .then(file => {
+        if (isCancelled) return;
+        if (!file) {
+          setIsMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+      })
+      .catch(() => !isCancelled && setIsMissing(true));
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId]);
+
+  return { url, isMissing };
+};
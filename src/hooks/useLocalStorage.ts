@@ -0,0 +1,38 @@
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+
+// useState that is read from and written back to a localStorage key; an unreadable value
+// falls back to the initial one instead of breaking the page
+export const useLocalStorage = <T>(
+  key: string,
+  initialValue: T
+): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => {
+    const savedValue = localStorage.getItem(key);
+    if (!savedValue) return initialValue;
+    try {
+      return JSON.parse(savedValue);
+    } catch {
+      return initialValue;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value));
+  }, [key, value]);
+
+  // Another tab wrote the key. Writing the same text back doesn't fire another event, so this can't loop
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key || event.newValue === null) return;
+      try {
+        setValue(JSON.parse(event.newValue));
+      } catch {
+        // Keep the current value
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key]);
+
+  return [value, setValue];
+};
@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+
+// Current time in ms, refreshed on an interval while enabled (for live durations)
+export const useNow = (enabled: boolean, intervalMs: number = 1000) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [enabled, intervalMs]);
+
+  return now;
+};
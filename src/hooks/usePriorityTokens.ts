@@ -0,0 +1,13 @@
+import { useEffect } from 'react';
+import { PriorityLevel } from '@/types/Priority';
+import { getPriorityTokenName } from '@/lib/priorities';
+
+// Publishes custom level colors as --priority-<id> tokens so every component reads the same source
+export const usePriorityTokens = (levels: PriorityLevel[]) => {
+  useEffect(() => {
+    const root = document.documentElement;
+    const colored = levels.filter(level => level.color);
+    colored.forEach(level => root.style.setProperty(getPriorityTokenName(level.id), level.color));
+    return () => colored.forEach(level => root.style.removeProperty(getPriorityTokenName(level.id)));
+  }, [levels]);
+};
@@ -0,0 +1,172 @@
+import { useState, useEffect, useRef } from 'react';
+import { onlineManager, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Task } from '@/types/Task';
+import { SyncOperation, SyncSettings } from '@/types/Sync';
+import { toast } from '@/components/ui/sonner';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import type { TaskChanges } from '@/lib/taskStorage';
+import { ServerTaskList, fetchTaskList } from '@/lib/syncApi';
+import {
+  DEFAULT_SYNC_SETTINGS,
+  SYNC_SETTINGS_KEY,
+  discardOperation,
+  enqueueTaskChanges,
+  isFailedOperation,
+  readSyncQueue,
+  readSyncRevisions,
+  reconcileServerTasks,
+  replaySyncQueue,
+  resetSyncState,
+  retryFailedOperations,
+  subscribeToSyncQueue,
+  writeSyncRevisions
+} from '@/lib/syncQueue';
+
+// How often the server is asked for changes made elsewhere
+const POLL_INTERVAL = 30 * 1000;
+// Edits are sent once typing settles rather than on every keystroke
+const REPLAY_DELAY = 1000;
+
+export interface ServerSyncStatus {
+  settings: SyncSettings;
+  updateSettings: (settings: SyncSettings) => void;
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  // Changes the server refused; they stay queued until retried or discarded
+  failedOperations: SyncOperation[];
+  retryFailed: () => void;
+  discardFailed: (id: string) => void;
+  error: string | null;
+  lastSyncedAt: number | null;
+  syncNow: () => void;
+}
+
+// fetch rejects with a TypeError when the server can't be reached at all
+const describeSyncError = (error: Error | null) => {
+  if (!error) return null;
+  return error instanceof TypeError ? "Can't reach the sync server" : error.message;
+};
+
+// Optional sync with a server (see server/index.js). Local changes are saved and shown right away
+// as always, and queued for the server; the queue is sent whenever the server can be reached, so
+// edits made offline go up once it's back. The server is polled for changes made on other devices
+export const useServerSync = (
+  tasks: Task[],
+  isLoaded: boolean,
+  applyServerChanges: (changes: TaskChanges) => void
+): ServerSyncStatus => {
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useLocalStorage<SyncSettings>(SYNC_SETTINGS_KEY, DEFAULT_SYNC_SETTINGS);
+  const [isOnline, setIsOnline] = useState(() => onlineManager.isOnline());
+  const [queue, setQueue] = useState<SyncOperation[]>([]);
+  const tasksRef = useRef(tasks);
+  const applyServerChangesRef = useRef(applyServerChanges);
+  const isEnabled = settings.enabled && isLoaded;
+  const pendingCount = queue.filter(operation => !isFailedOperation(operation)).length;
+  const queryKey = ['tasks', settings.url];
+
+  useEffect(() => {
+    tasksRef.current = tasks;
+    applyServerChangesRef.current = applyServerChanges;
+  });
+
+  useEffect(() => onlineManager.subscribe(setIsOnline), []);
+  useEffect(() => {
+    readSyncQueue()
+      .then(setQueue)
+      .catch(() => {
+        // The count stays at zero; queuing shows its own error if storage is broken
+      });
+    return subscribeToSyncQueue(setQueue);
+  }, []);
+
+  const { data: serverTasks, dataUpdatedAt, error: fetchError } = useQuery({
+    queryKey,
+    queryFn: () => fetchTaskList(settings.url, queryClient.getQueryData<ServerTaskList>(queryKey)),
+    enabled: isEnabled,
+    refetchInterval: POLL_INTERVAL
+  });
+
+  const { mutate: replayQueue, isPending: isSyncing, error: replayError } = useMutation({
+    mutationFn: () => replaySyncQueue(settings.url, changes => applyServerChangesRef.current(changes)),
+    onSuccess: rejected => {
+      if (rejected.length > 0) {
+        toast.error(`The sync server refused ${rejected.length} change${rejected.length === 1 ? '' : 's'}`, {
+          description: 'They stay queued; retry or discard them in the Sync settings.'
+        });
+      }
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  // Every successful fetch, even of an unchanged list, means the server is reachable again
+  useEffect(() => {
+    if (!isEnabled || !serverTasks) return;
+    const reconcile = async () => {
+      const queuedOperations = await readSyncQueue();
+      const { changes, revisions, uploads } = reconcileServerTasks(
+        tasksRef.current,
+        serverTasks,
+        readSyncRevisions(),
+        queuedOperations
+      );
+      writeSyncRevisions(revisions);
+      applyServerChangesRef.current(changes);
+      await enqueueTaskChanges({ put: uploads.map(task => ({ task })), deleted: [] });
+      if (queuedOperations.some(operation => !isFailedOperation(operation)) || uploads.length > 0) replayQueue();
+    };
+    reconcile().catch((error: Error) => {
+      toast.error("Couldn't take in changes from the sync server", { description: error.message });
+    });
+  }, [isEnabled, serverTasks, dataUpdatedAt, replayQueue]);
+
+  // Runs whenever the queue changes, once edits settle. A failed replay leaves the queue as it was,
+  // so it isn't retried in a loop
+  useEffect(() => {
+    if (!isEnabled || !isOnline || pendingCount === 0) return;
+    const timeout = setTimeout(() => replayQueue(), REPLAY_DELAY);
+    return () => clearTimeout(timeout);
+  }, [queue, pendingCount, isEnabled, isOnline, replayQueue]);
+
+  // A different server knows nothing of what was sent to the old one
+  const updateSettings = (nextSettings: SyncSettings) => {
+    if (nextSettings.url !== settings.url) {
+      resetSyncState().catch(() => {
+        toast.error("Couldn't clear the changes queued for the previous server");
+      });
+    }
+    setSettings(nextSettings);
+  };
+
+  const retryFailed = () => {
+    retryFailedOperations().catch(() => {
+      toast.error("Couldn't update the sync queue. Browser storage may be full.");
+    });
+  };
+
+  const discardFailed = (id: string) => {
+    discardOperation(id).catch(() => {
+      toast.error("Couldn't update the sync queue. Browser storage may be full.");
+    });
+  };
+
+  const syncNow = () => {
+    replayQueue();
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    settings,
+    updateSettings,
+    isOnline,
+    isSyncing,
+    pendingCount,
+    failedOperations: queue.filter(isFailedOperation),
+    retryFailed,
+    discardFailed,
+    error: isEnabled ? describeSyncError(replayError || fetchError) : null,
+    lastSyncedAt: dataUpdatedAt || null,
+    syncNow
+  };
+};
@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Task } from '@/types/Task';
+import { toast } from '@/components/ui/sonner';
+import {
+  TaskChanges,
+  TaskStorageAdapter,
+  applyTaskChanges,
+  clearQuarantine,
+  diffTasks,
+  hasTaskChanges,
+  loadStoredTasks,
+  openTaskStorage
+} from '@/lib/taskStorage';
+import { QuarantinedTask } from '@/lib/taskSchema';
+import { TabSync, createSyncMessage, openTabSync } from '@/lib/tabSync';
+import { TaskConflict, applyRemoteChanges } from '@/lib/taskMerge';
+import { HISTORY_FIELD_LABELS } from '@/lib/history';
+import { enqueueTaskChanges } from '@/lib/syncQueue';
+
+// Stored records that couldn't be read, waiting to be downloaded or discarded
+export interface TaskQuarantine {
+  tasks: QuarantinedTask[];
+  discard: () => void;
+}
+
+interface UseStoredTasksReturn {
+  tasks: Task[];
+  setTasks: Dispatch<SetStateAction<Task[]>>;
+  isLoaded: boolean;
+  // Set when the stored tasks couldn't be read; the list is then empty rather than really empty
+  loadError: Error | null;
+  quarantine: TaskQuarantine;
+  // Takes changes that came from the sync server: they are stored and shared with the other tabs,
+  // but not queued to be sent back
+  applyServerChanges: (changes: TaskChanges) => void;
+}
+
+const notifyConflict = ({ task, fields, isDeletedElsewhere }: TaskConflict) => {
+  if (isDeletedElsewhere) {
+    toast(`"${task.title}" was deleted in another tab`, {
+      description: 'It was kept because it was edited here at the same time.'
+    });
+  } else {
+    const labels = fields.map(field => (HISTORY_FIELD_LABELS[field] || field).toLowerCase());
+    toast(`"${task.title}" was changed in another tab at the same time`, {
+      description: `Kept the most recent ${labels.join(', ')}.`
+    });
+  }
+};
+
+// Tasks kept in the task storage adapter. Only tasks that changed since the last save are written,
+// so an edit costs one record rather than the whole list. Every save is announced to the other open
+// tabs, which merge it into their own state, and queued for the sync server when sync is on
+export const useStoredTasks = (): UseStoredTasksReturn => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [quarantinedTasks, setQuarantinedTasks] = useState<QuarantinedTask[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const storageRef = useRef<TaskStorageAdapter | null>(null);
+  const savedTasksRef = useRef<Task[]>([]);
+  const latestTasksRef = useRef<Task[]>([]);
+  const syncRef = useRef<TabSync | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    openTaskStorage()
+      .then(async storage => {
+        const { tasks: storedTasks, quarantined } = await loadStoredTasks(storage);
+        if (isCancelled) return;
+        storageRef.current = storage;
+        savedTasksRef.current = storedTasks;
+        setTasks(storedTasks);
+        setQuarantinedTasks(quarantined);
+      })
+      .catch((error: Error) => {
+        if (isCancelled) return;
+        setLoadError(error);
+        toast.error("Couldn't open task storage; changes won't be saved in this session");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoaded(true);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !storageRef.current) return;
+    const sync = openTabSync(message => {
+      // The sending tab already wrote these records, so here they count as saved
+      savedTasksRef.current = applyTaskChanges(savedTasksRef.current, {
+        put: message.put.map(({ task }) => task),
+        deleted: message.deleted.map(({ id }) => id)
+      });
+      applyRemoteChanges(latestTasksRef.current, message).conflicts.forEach(notifyConflict);
+      setTasks(currentTasks => applyRemoteChanges(currentTasks, message).tasks);
+    });
+    syncRef.current = sync;
+    return () => {
+      sync.close();
+      syncRef.current = null;
+    };
+  }, [isLoaded]);
+
+  useEffect(() => {
+    latestTasksRef.current = tasks;
+    const storage = storageRef.current;
+    if (!isLoaded || !storage) return;
+    const changes = diffTasks(savedTasksRef.current, tasks);
+    if (!hasTaskChanges(changes)) return;
+
+    const message = createSyncMessage(changes, savedTasksRef.current);
+    savedTasksRef.current = tasks;
+    enqueueTaskChanges(message).catch(() => {
+      toast.error("Couldn't queue your latest changes for the sync server. Browser storage may be full.");
+    });
+    storage.saveChanges(changes)
+      .then(() => syncRef.current?.post(message))
+      .catch(() => {
+        toast.error("Couldn't save your latest changes. Browser storage may be full.");
+      });
+  }, [tasks, isLoaded]);
+
+  const discard = () => {
+    clearQuarantine();
+    setQuarantinedTasks([]);
+  };
+
+  // Merged like another tab's save, so edits made here in the meantime survive; whatever differs
+  // from the server's version afterwards is saved and queued by the effect above
+  const applyServerChanges = (changes: TaskChanges) => {
+    const storage = storageRef.current;
+    if (!storage || !hasTaskChanges(changes)) return;
+    const message = createSyncMessage(changes, savedTasksRef.current);
+    savedTasksRef.current = applyTaskChanges(savedTasksRef.current, changes);
+    setTasks(currentTasks => applyRemoteChanges(currentTasks, message).tasks);
+    storage.saveChanges(changes)
+      .then(() => syncRef.current?.post(message))
+      .catch(() => {
+        toast.error("Couldn't save changes from the sync server. Browser storage may be full.");
+      });
+  };
+
+  return { tasks, setTasks, isLoaded, loadError, quarantine: { tasks: quarantinedTasks, discard }, applyServerChanges };
+};
@@ -0,0 +1,111 @@
+import { useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Task } from '@/types/Task';
+import { toast } from '@/components/ui/sonner';
+import { createId } from '@/lib/utils';
+import {
+  MAX_UNDO_ENTRIES,
+  TaskReferences,
+  UndoEntry,
+  combineRevisions,
+  describeRevisions,
+  getTaskRevisions,
+  reapplyRevisions,
+  revertRevisions
+} from '@/lib/undo';
+
+interface UseTaskUndoReturn {
+  recordChange: (prevTasks: Task[], nextTasks: Task[], label?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  // Every version of a task that undo or redo could bring back
+  getRetainedTasks: () => Task[];
+}
+
+// Undo and redo stacks for task changes. Changes recorded during the same tick (one click can
+// update tasks more than once) form a single entry, announced with an "Undo" toast.
+// Undo and redo write the stored versions straight back, so they don't add history entries. They
+// only touch the fields an entry changed, and leave fields changed again since alone
+export const useTaskUndo = (
+  setStoredTasks: Dispatch<SetStateAction<Task[]>>,
+  references: TaskReferences
+): UseTaskUndoReturn => {
+  // Toasts keep the undo of the render that showed them, so the definitions are read from a ref
+  const referencesRef = useRef(references);
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  const pendingRef = useRef<UndoEntry | null>(null);
+  // Only reads refs, so one function serves every render and effects can depend on it
+  const getRetainedTasksRef = useRef(() =>
+    [...undoStackRef.current, ...redoStackRef.current, ...(pendingRef.current ? [pendingRef.current] : [])]
+      .flatMap(entry => entry.revisions)
+      .flatMap(revision => [revision.before, revision.after])
+      .filter(Boolean)
+  );
+
+  useEffect(() => {
+    referencesRef.current = references;
+  });
+
+  // Undoes entries from the top of the stack down to the given one, or just the top one
+  const undo = (entryId?: string) => {
+    const index = entryId
+      ? undoStackRef.current.findIndex(entry => entry.id === entryId)
+      : undoStackRef.current.length - 1;
+    if (index === -1) return;
+
+    const undone = undoStackRef.current.slice(index).reverse();
+    undoStackRef.current = undoStackRef.current.slice(0, index);
+    redoStackRef.current = [...redoStackRef.current, ...undone];
+    const options = { keepLaterChanges: true, references: referencesRef.current };
+    setStoredTasks(prevTasks =>
+      undone.reduce((tasks, entry) => revertRevisions(tasks, entry.revisions, options), prevTasks)
+    );
+    toast(`Undone: ${undone[undone.length - 1].label}`, {
+      action: { label: 'Redo', onClick: () => redo() }
+    });
+  };
+
+  const redo = () => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry) return;
+
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, entry];
+    const options = { keepLaterChanges: true, references: referencesRef.current };
+    setStoredTasks(prevTasks => reapplyRevisions(prevTasks, entry.revisions, options));
+    toast(`Redone: ${entry.label}`, {
+      action: { label: 'Undo', onClick: () => undo(entry.id) }
+    });
+  };
+
+  const commitPending = () => {
+    const entry = pendingRef.current;
+    pendingRef.current = null;
+    if (!entry || entry.revisions.length === 0) return;
+
+    const labeled = { ...entry, label: entry.label || describeRevisions(entry.revisions) };
+    undoStackRef.current = [...undoStackRef.current, labeled].slice(-MAX_UNDO_ENTRIES);
+    redoStackRef.current = [];
+    toast(labeled.label, {
+      action: { label: 'Undo', onClick: () => undo(labeled.id) }
+    });
+  };
+
+  const recordChange = (prevTasks: Task[], nextTasks: Task[], label?: string) => {
+    const revisions = getTaskRevisions(prevTasks, nextTasks);
+    if (revisions.length === 0) return;
+
+    if (pendingRef.current) {
+      pendingRef.current = {
+        ...pendingRef.current,
+        label: pendingRef.current.label || label,
+        revisions: combineRevisions(pendingRef.current.revisions, revisions)
+      };
+      return;
+    }
+    pendingRef.current = { id: createId('undo'), label, revisions };
+    setTimeout(commitPending, 0);
+  };
+
+  return { recordChange, undo: () => undo(), redo, getRetainedTasks: getRetainedTasksRef.current };
+};
@@ -0,0 +1,116 @@
+import { AttachmentRef, Task } from "@/types/Task";
+import { QuarantinedTask } from "@/lib/taskSchema";
+import { createId } from "@/lib/utils";
+
+const DB_NAME = 'task-attachments';
+const STORE_NAME = 'files';
+
+// Unreferenced files younger than this are kept: they may have just been dropped into a form that is
+// still open in another tab
+const ORPHAN_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+
+export const isImageAttachment = (attachment: Pick<AttachmentRef, 'type'>) => attachment.type.startsWith('image/');
+
+export const isAcceptedAttachment = (file: File) =>
+  file.type.startsWith('image/') || file.type === 'application/pdf';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once that transaction commits
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveAttachmentFile = async (file: File): Promise<AttachmentRef> => {
+  const attachment: AttachmentRef = {
+    id: createId('file'),
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    addedAt: Date.now()
+  };
+  // Stored with the time it was saved, which the cleanup's grace period goes by
+  const storedFile = new File([file], file.name, { type: file.type, lastModified: attachment.addedAt });
+  await runRequest('readwrite', store => store.put(storedFile, attachment.id));
+  return attachment;
+};
+
+export const getAttachmentFile = (id: string) =>
+  runRequest<Blob | undefined>('readonly', store => store.get(id));
+
+// Quarantined records may not have the usual shape, so any string in them counts as a file id
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  return value && typeof value === 'object' ? Object.values(value).flatMap(collectStrings) : [];
+};
+
+// Files still listed in a task's history count as referenced so that history can restore them, and
+// files of quarantined records so that repairing a record brings its attachments back
+export const getReferencedAttachmentIds = (tasks: Task[], quarantined: QuarantinedTask[] = []) =>
+  new Set([
+    ...tasks.flatMap(task => [
+      ...(task.attachments || []),
+      ...(task.history || [])
+        .filter(change => change.field === 'attachments')
+        .flatMap(change => [change.from, change.to] as (AttachmentRef[] | undefined)[])
+        .flatMap(attachments => attachments || [])
+    ].map(attachment => attachment.id)),
+    ...collectStrings(quarantined.map(({ record }) => record))
+  ]);
+
+// Deletes stored files that no task points to any more and that are past the grace period;
+// returns how many were removed
+export const removeUnreferencedAttachments = async (referencedIds: Set<string>, now = Date.now()) => {
+  const db = await openDb();
+  return new Promise<number>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+    let removedCount = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      // Files saved before the grace period existed carry the file's own date, which is older
+      const savedAt = cursor.value instanceof File ? cursor.value.lastModified : 0;
+      if (!referencedIds.has(String(cursor.key)) && now - savedAt > ORPHAN_GRACE_PERIOD) {
+        cursor.delete();
+        removedCount += 1;
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(removedCount);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
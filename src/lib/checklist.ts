@@ -0,0 +1,43 @@
+import { ChecklistItem } from "@/types/Task";
+import { createId } from "@/lib/utils";
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+export const createChecklistItem = (text: string): ChecklistItem => ({
+  id: createId('item'),
+  text: text.trim(),
+  isCompleted: false
+});
+
+export const getChecklistProgress = (checklist: ChecklistItem[] = []): ChecklistProgress => {
+  const completed = checklist.filter(item => item.isCompleted).length;
+  const total = checklist.length;
+  return {
+    completed,
+    total,
+    percent: total > 0 ? (completed / total) * 100 : 0
+  };
+};
+
+export const isChecklistComplete = (checklist: ChecklistItem[] = []) =>
+  checklist.length > 0 && checklist.every(item => item.isCompleted);
+
+export const toggleChecklistItem = (checklist: ChecklistItem[], itemId: string): ChecklistItem[] =>
+  checklist.map(item => item.id === itemId ? { ...item, isCompleted: !item.isCompleted } : item);
+
+// Move an item up (-1) or down (+1), leaving the list untouched at the edges
+export const moveChecklistItem = (checklist: ChecklistItem[], itemId: string, offset: number): ChecklistItem[] => {
+  const from = checklist.findIndex(item => item.id === itemId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= checklist.length) {
+    return checklist;
+  }
+  const next = [...checklist];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
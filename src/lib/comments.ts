@@ -0,0 +1,36 @@
+import { TaskComment } from "@/types/Task";
+import { Person } from "@/types/Person";
+import { createId } from "@/lib/utils";
+
+// There are no accounts. Comments and changes are credited to the person selected as "me",
+// or to this browser's anonymous user when nobody is
+export const CURRENT_USER_ID = 'me';
+
+export const getAuthorId = (currentPersonId: string | null) => currentPersonId || CURRENT_USER_ID;
+
+// "You" for the current author, the person's name for people in the directory
+export const describeAuthor = (authorId: string, currentAuthorId: string, people: Person[]) => {
+  if (authorId === currentAuthorId) return 'You';
+  return people.find(person => person.id === authorId)?.name || 'Someone';
+};
+
+export const createComment = (text: string, authorId: string): TaskComment => ({
+  id: createId('comment'),
+  authorId,
+  text: text.trim(),
+  createdAt: Date.now()
+});
+
+export const isOwnComment = (comment: TaskComment, authorId: string) => comment.authorId === authorId;
+
+export const editComment = (comments: TaskComment[], id: string, text: string, authorId: string) =>
+  comments.map(comment => comment.id === id && isOwnComment(comment, authorId)
+    ? { ...comment, text: text.trim(), editedAt: Date.now() }
+    : comment
+  );
+
+export const deleteComment = (comments: TaskComment[], id: string, authorId: string) =>
+  comments.filter(comment => comment.id !== id || !isOwnComment(comment, authorId));
+
+export const commentsMatchQuery = (comments: TaskComment[] = [], query: string) =>
+  comments.some(comment => comment.text.toLowerCase().includes(query.toLowerCase()));
@@ -0,0 +1,87 @@
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, CustomFieldValues } from "@/types/CustomField";
+import { Task } from "@/types/Task";
+import { createId } from "@/lib/utils";
+import { parseDateKey } from "@/lib/dates";
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  'single-select': 'Single select',
+  'multi-select': 'Multi select',
+  date: 'Date',
+  checkbox: 'Checkbox'
+};
+
+export const isSelectField = (field: CustomFieldDefinition) =>
+  field.type === 'single-select' || field.type === 'multi-select';
+
+export const createCustomField = (name: string, type: CustomFieldType, options: string[] = []): CustomFieldDefinition => ({
+  id: createId('field'),
+  name: name.trim(),
+  type,
+  ...(type === 'single-select' || type === 'multi-select' ? { options } : {})
+});
+
+// "a, b, a,  c" -> ["a", "b", "c"]
+export const parseFieldOptions = (input: string) =>
+  [...new Set(input.split(',').map(option => option.trim()).filter(Boolean))];
+
+export const findCustomFieldByName = (fields: CustomFieldDefinition[], name: string) =>
+  fields.find(field => field.name.toLowerCase() === name.trim().toLowerCase());
+
+// Unchecked boxes count as empty so they aren't stored or shown
+export const isEmptyFieldValue = (value?: CustomFieldValue) =>
+  value === undefined || value === '' || value === false ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'number' && Number.isNaN(value));
+
+// Drops values for deleted fields, removed options and empty inputs
+export const cleanCustomFieldValues = (values: CustomFieldValues = {}, fields: CustomFieldDefinition[]) =>
+  fields.reduce<CustomFieldValues>((cleaned, field) => {
+    let value = values[field.id];
+    if (field.type === 'single-select' && !field.options?.includes(value as string)) {
+      value = undefined;
+    } else if (field.type === 'multi-select' && Array.isArray(value)) {
+      value = value.filter(option => field.options?.includes(option));
+    }
+    if (!isEmptyFieldValue(value)) {
+      cleaned[field.id] = value;
+    }
+    return cleaned;
+  }, {});
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value?: CustomFieldValue) => {
+  if (isEmptyFieldValue(value)) return '';
+  switch (field.type) {
+    case 'date':
+      return parseDateKey(value as string).toLocaleDateString();
+    case 'checkbox':
+      return 'Yes';
+    case 'multi-select':
+      return (value as string[]).join(', ');
+    default:
+      return String(value);
+  }
+};
+
+export const customFieldsMatchQuery = (task: Task, fields: CustomFieldDefinition[], query: string) =>
+  fields.some(field =>
+    formatCustomFieldValue(field, task.customFields?.[field.id]).toLowerCase().includes(query.toLowerCase())
+  );
+
+// Selects sort by option order, everything else by its natural order
+export const compareCustomFieldValues = (field: CustomFieldDefinition, a: CustomFieldValue, b: CustomFieldValue) => {
+  switch (field.type) {
+    case 'number':
+      return (a as number) - (b as number);
+    case 'checkbox':
+      return Number(b) - Number(a);
+    case 'single-select':
+      return (field.options || []).indexOf(a as string) - (field.options || []).indexOf(b as string);
+    case 'multi-select':
+      return formatCustomFieldValue(field, a).localeCompare(formatCustomFieldValue(field, b));
+    default:
+      // Text compares naturally; date keys compare correctly as strings
+      return String(a).localeCompare(String(b), undefined, { numeric: true });
+  }
+};
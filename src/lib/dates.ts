@@ -0,0 +1,48 @@
+import { endOfDay, format } from "date-fns";
+import { Task } from "@/types/Task";
+import { isTaskDone } from "@/lib/status";
+
+// Due dates are local calendar days ("YYYY-MM-DD"), never UTC instants, so they
+// read the same in every timezone and survive repeated edits unchanged
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getTodayKey = () => toDateKey(new Date());
+
+// Date-only tasks are due at the end of their day; timed tasks at that local time
+export const getDueInstant = ({ dueDate, dueTime }: Pick<Task, 'dueDate' | 'dueTime'>) => {
+  if (!dueDate) return null;
+  const day = parseDateKey(dueDate);
+  if (!dueTime) return endOfDay(day);
+
+  const [hours, minutes] = dueTime.split(':').map(Number);
+  day.setHours(hours, minutes, 0, 0);
+  return day;
+};
+
+export const isTaskOverdue = (task: Task, now: Date = new Date()) => {
+  const dueInstant = getDueInstant(task);
+  return !!dueInstant && !isTaskDone(task) && dueInstant < now;
+};
+
+// Tasks with a start date later than today aren't actionable yet
+export const isTaskScheduled = (task: Task, todayKey: string = getTodayKey()) =>
+  !!task.startDate && task.startDate > todayKey;
+
+export const formatDueDate = ({ dueDate, dueTime }: Pick<Task, 'dueDate' | 'dueTime'>) => {
+  if (!dueDate) return null;
+  const date = parseDateKey(dueDate).toLocaleDateString();
+  if (!dueTime) return date;
+  return `${date} ${getDueInstant({ dueDate, dueTime }).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+// Older tasks stored the date input parsed as UTC midnight; the UTC calendar day is the one the user picked
+export const migrateTaskDueDate = (task: Task): Task => {
+  const legacyDueDate: unknown = task.dueDate;
+  if (typeof legacyDueDate !== 'number') return task;
+  return { ...task, dueDate: new Date(legacyDueDate).toISOString().split('T')[0] };
+};
@@ -0,0 +1,37 @@
+import { Task } from "@/types/Task";
+import { isTaskDone } from "@/lib/status";
+
+// True when `taskId` is reachable from `blockerId` through existing "blocked by" links,
+// i.e. making `blockerId` block `taskId` would close a loop
+export const wouldCreateCycle = (tasks: Task[], taskId: string, blockerId: string) => {
+  if (taskId === blockerId) return true;
+
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const visited = new Set<string>();
+  const stack = [blockerId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop();
+    if (currentId === taskId) return true;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+    stack.push(...(tasksById.get(currentId)?.blockedBy || []));
+  }
+  return false;
+};
+
+// Blockers in the Trash keep their link (so a restore brings it back) but no longer block
+export const getBlockers = (task: Task, tasks: Task[]) =>
+  (task.blockedBy || [])
+    .map(blockerId => tasks.find(t => t.id === blockerId))
+    .filter(blocker => blocker && !blocker.deletedAt);
+
+export const getOpenBlockers = (task: Task, tasks: Task[]) =>
+  getBlockers(task, tasks).filter(blocker => !isTaskDone(blocker));
+
+// Drop every link that points at a task that no longer exists
+export const removeDependencyLinks = (tasks: Task[], removedId: string) =>
+  tasks.map(task => task.blockedBy?.includes(removedId)
+    ? { ...task, blockedBy: task.blockedBy.filter(blockerId => blockerId !== removedId) }
+    : task
+  );
@@ -0,0 +1,145 @@
+import { AttachmentRef, ChecklistItem, RepeatRule, Task, TaskChange } from "@/types/Task";
+import { Tag } from "@/types/Tag";
+import { Project } from "@/types/Project";
+import { StatusDefinition } from "@/types/Status";
+import { PriorityLevel } from "@/types/Priority";
+import { CustomFieldDefinition, CustomFieldValues } from "@/types/CustomField";
+import { Person } from "@/types/Person";
+import { createId } from "@/lib/utils";
+import { CURRENT_USER_ID } from "@/lib/comments";
+import { getStatusDefinition } from "@/lib/status";
+import { getChecklistProgress } from "@/lib/checklist";
+import { describeRepeatRule } from "@/lib/recurrence";
+import { parseDateKey } from "@/lib/dates";
+import { estimateToMs, formatDuration } from "@/lib/timeTracking";
+import { formatCustomFieldValue, isEmptyFieldValue } from "@/lib/customFields";
+
+// Bookkeeping and fields with their own activity log aren't part of the history
+// (trash and archive moves are undone from their own views instead)
+const UNTRACKED_FIELDS: (keyof Task)[] = [
+  'id', 'createdAt', 'updatedAt', 'completedAt', 'order', 'history',
+  'timeEntries', 'comments', 'archivedAt', 'deletedAt'
+];
+
+// Oldest entries are dropped beyond this so storage doesn't grow without bound
+const MAX_HISTORY = 200;
+
+export const HISTORY_FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  status: 'Status',
+  dueDate: 'Due date',
+  dueTime: 'Due time',
+  startDate: 'Start date',
+  checklist: 'Checklist',
+  tagIds: 'Tags',
+  projectId: 'Project',
+  repeat: 'Repeat',
+  blockedBy: 'Blocked by',
+  estimateMinutes: 'Estimate',
+  customFields: 'Custom fields',
+  attachments: 'Attachments',
+  assigneeIds: 'Assignees'
+};
+
+// Missing, empty string, empty list and empty object all mean "not set"
+const normalize = (value: unknown) =>
+  value === undefined || value === null || value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0)
+    ? null
+    : value;
+
+export const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export const getChangedFields = (previous: Task, next: Task) => {
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof Task)[]);
+  return [...fields].filter(field =>
+    !UNTRACKED_FIELDS.includes(field) && !isSameValue(previous[field], next[field])
+  );
+};
+
+// Appends an entry for every field that differs between the old and new version of each task
+export const recordTaskHistory = (
+  prevTasks: Task[],
+  nextTasks: Task[],
+  authorId: string = CURRENT_USER_ID,
+  now: number = Date.now()
+) => {
+  const prevById = new Map(prevTasks.map(task => [task.id, task]));
+
+  return nextTasks.map(task => {
+    const previous = prevById.get(task.id);
+    if (!previous || previous === task) return task;
+
+    const changes: TaskChange[] = getChangedFields(previous, task).map(field => ({
+      id: createId('change'),
+      field,
+      from: normalize(previous[field]) ?? undefined,
+      to: normalize(task[field]) ?? undefined,
+      changedAt: now,
+      authorId
+    }));
+    if (changes.length === 0) return task;
+
+    return { ...task, history: [...(previous.history || []), ...changes].slice(-MAX_HISTORY) };
+  });
+};
+
+export interface HistoryContext {
+  tasks: Task[];
+  tags: Tag[];
+  projects: Project[];
+  statuses: StatusDefinition[];
+  priorities: PriorityLevel[];
+  customFields: CustomFieldDefinition[];
+  people: Person[];
+}
+
+// Human-readable version of a stored value, resolving ids to names where possible
+export const formatHistoryValue = (field: keyof Task, value: unknown, context: HistoryContext): string => {
+  if (value === undefined || value === null) return 'None';
+
+  switch (field) {
+    case 'status':
+      return getStatusDefinition(context.statuses, value as string).label;
+    case 'priority':
+      return context.priorities.find(level => level.id === value)?.label || 'Removed priority';
+    case 'dueDate':
+    case 'startDate':
+      return parseDateKey(value as string).toLocaleDateString();
+    case 'projectId':
+      return context.projects.find(project => project.id === value)?.name || 'Deleted project';
+    case 'tagIds':
+      return (value as string[])
+        .map(tagId => context.tags.find(tag => tag.id === tagId)?.name || 'Deleted tag')
+        .join(', ');
+    case 'assigneeIds':
+      return (value as string[])
+        .map(personId => context.people.find(person => person.id === personId)?.name || 'Removed person')
+        .join(', ');
+    case 'blockedBy':
+      return (value as string[])
+        .map(taskId => context.tasks.find(task => task.id === taskId)?.title || 'Deleted task')
+        .join(', ');
+    case 'checklist': {
+      const { completed, total } = getChecklistProgress(value as ChecklistItem[]);
+      return `${total} item${total === 1 ? '' : 's'} (${completed} done)`;
+    }
+    case 'repeat':
+      return describeRepeatRule(value as RepeatRule);
+    case 'customFields':
+      return context.customFields
+        .filter(customField => !isEmptyFieldValue((value as CustomFieldValues)[customField.id]))
+        .map(customField => `${customField.name}: ${formatCustomFieldValue(customField, (value as CustomFieldValues)[customField.id])}`)
+        .join(', ') || 'None';
+    case 'attachments':
+      return (value as AttachmentRef[]).map(attachment => attachment.name).join(', ');
+    case 'estimateMinutes':
+      return formatDuration(estimateToMs(value as number));
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+};
@@ -0,0 +1,92 @@
+import { SyncOperation } from "@/types/Sync";
+import type { TaskStorageAdapter } from "@/lib/taskStorage";
+import { TaskRecord, createTaskRecord } from "@/lib/taskSchema";
+
+const DB_NAME = 'task-data';
+const DB_VERSION = 2;
+const STORE_NAME = 'tasks';
+// Keyed by task id, so queuing a change replaces the one queued before it for the same task
+const SYNC_QUEUE_STORE = 'syncQueue';
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: 'taskId' });
+    };
+    request.onsuccess = () => {
+      // A newer version opened in another tab can only upgrade once this connection lets go
+      request.result.onversionchange = () => request.result.close();
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once the transaction commits, so a resolved save is really on disk
+const runTransaction = <T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+) =>
+  new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Records come back in key order; the queue is sent in the order it was filled
+const sortQueue = (queue: SyncOperation[]) => [...queue].sort((a, b) => a.queuedAt - b.queuedAt);
+
+export const createIndexedDbAdapter = async (): Promise<TaskStorageAdapter> => {
+  const db = await openDb();
+
+  return {
+    name: 'indexedDB',
+
+    // The key path guarantees every record has an id, whatever else is wrong with it
+    loadRecords: async () => {
+      const records = await runTransaction<TaskRecord[]>(db, STORE_NAME, 'readonly', store => store.getAll());
+      return (records || []).map(record => ({ id: record.id, value: record }));
+    },
+
+    // Every put and delete of one save shares a transaction, so it lands completely or not at all
+    saveChanges: async ({ put, deleted }) => {
+      await runTransaction(db, STORE_NAME, 'readwrite', store => {
+        put.forEach(task => store.put(createTaskRecord(task)));
+        deleted.forEach(id => store.delete(id));
+      });
+    },
+
+    loadSyncQueue: async () =>
+      sortQueue(await runTransaction<SyncOperation[]>(db, SYNC_QUEUE_STORE, 'readonly', store => store.getAll()) || []),
+
+    // The read and the writes share one transaction; only operations the update changed are written
+    updateSyncQueue: update =>
+      new Promise<SyncOperation[]>((resolve, reject) => {
+        const transaction = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+        const store = transaction.objectStore(SYNC_QUEUE_STORE);
+        let nextQueue: SyncOperation[] = [];
+        const request = store.getAll();
+        request.onsuccess = () => {
+          const queue = sortQueue(request.result);
+          nextQueue = update(queue);
+          const nextTaskIds = new Set(nextQueue.map(operation => operation.taskId));
+          const unchanged = new Set(queue);
+          queue.forEach(operation => {
+            if (!nextTaskIds.has(operation.taskId)) store.delete(operation.taskId);
+          });
+          nextQueue.forEach(operation => {
+            if (!unchanged.has(operation)) store.put(operation);
+          });
+        };
+        transaction.oncomplete = () => resolve(nextQueue);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      })
+  };
+};
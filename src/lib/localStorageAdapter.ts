@@ -0,0 +1,72 @@
+import { Task } from "@/types/Task";
+import { SyncOperation } from "@/types/Sync";
+import type { TaskStorageAdapter } from "@/lib/taskStorage";
+import { createTaskRecord } from "@/lib/taskSchema";
+
+// One key per task plus an ordered list of ids, so an edit rewrites a single small entry
+const INDEX_KEY = 'tasks:index';
+const KEY_PREFIX = 'tasks:';
+const getTaskKey = (id: string) => `${KEY_PREFIX}${id}`;
+const SYNC_QUEUE_KEY = 'syncQueue';
+
+// A damaged index is rebuilt from the task keys themselves
+const readIndex = (): string[] => {
+  try {
+    const index = JSON.parse(localStorage.getItem(INDEX_KEY) || '[]');
+    if (Array.isArray(index) && index.every(id => typeof id === 'string')) return index;
+  } catch {
+    // Fall through to the rebuild
+  }
+  return Object.keys(localStorage)
+    .filter(key => key.startsWith(KEY_PREFIX) && key !== INDEX_KEY)
+    .map(key => key.slice(KEY_PREFIX.length));
+};
+
+// Unparseable entries are returned as their raw text so they can still be quarantined
+const parseRecord = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const readSyncQueue = (): SyncOperation[] => {
+  try {
+    const queue = JSON.parse(localStorage.getItem(SYNC_QUEUE_KEY) || '[]');
+    return Array.isArray(queue) ? queue : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createLocalStorageAdapter = (): TaskStorageAdapter => ({
+  name: 'localStorage',
+
+  loadRecords: async () =>
+    readIndex()
+      .map(id => ({ id, value: localStorage.getItem(getTaskKey(id)) }))
+      .filter(record => record.value !== null)
+      .map(record => ({ id: record.id, value: parseRecord(record.value) })),
+
+  saveChanges: async ({ put, deleted }) => {
+    const index = readIndex();
+    const known = new Set(index);
+    put.forEach((task: Task) => localStorage.setItem(getTaskKey(task.id), JSON.stringify(createTaskRecord(task))));
+    deleted.forEach(id => localStorage.removeItem(getTaskKey(id)));
+
+    const added = put.map(task => task.id).filter(id => !known.has(id));
+    if (added.length > 0 || deleted.length > 0) {
+      const removed = new Set(deleted);
+      localStorage.setItem(INDEX_KEY, JSON.stringify([...index.filter(id => !removed.has(id)), ...added]));
+    }
+  },
+
+  loadSyncQueue: async () => readSyncQueue(),
+
+  updateSyncQueue: async update => {
+    const queue = update(readSyncQueue());
+    localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+    return queue;
+  }
+});
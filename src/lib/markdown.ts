@@ -0,0 +1,201 @@
+import { parseMentions } from "@/lib/mentions";
+
+// A small GitHub-flavoured Markdown subset for task descriptions: headings, paragraphs, lists
+// with task items, quotes, code, rules, emphasis, links and #-mentions. The parser builds a tree
+// that is rendered as React elements, never as HTML, so the output can't carry markup or scripts.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'mention'; taskId: string; label: string }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  // Set for "- [ ]" / "- [x]" items
+  checked?: boolean;
+  // Source line, used to toggle task items in the stored text
+  line: number;
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const INLINE_PATTERN = new RegExp([
+  /`([^`\n]+)`/.source,
+  /(#\[[^\]\n]*\]\([\w-]+\))/.source,
+  /\[([^\]\n]+)\]\(([^)\s]+)\)/.source,
+  /\*\*([^*\n]+)\*\*|(?<!\w)__([^_\n]+)__(?!\w)/.source,
+  /~~([^~\n]+)~~/.source,
+  /\*([^*\n]+)\*|(?<!\w)_([^_\n]+)_(?!\w)/.source,
+  /(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/.source,
+  /(\n)/.source
+].join('|'), 'g');
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^\s*```/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const TASK_ITEM = /^\[([ xX])\]\s+(.*)$/;
+
+// Only web and mail links are rendered as links; anything else (javascript:, data:) stays text
+export const isSafeHref = (href: string) => /^(https?:\/\/|mailto:)/i.test(href);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let lastIndex = 0;
+  const pushText = (value: string) => {
+    if (value) nodes.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+    const [, code, mention, linkText, linkHref, strong, strongAlt, strike, em, emAlt, url] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (mention !== undefined) {
+      const [segment] = parseMentions(mention);
+      nodes.push(segment.type === 'mention'
+        ? { type: 'mention', taskId: segment.taskId, label: segment.label }
+        : { type: 'text', text: mention });
+    } else if (linkText !== undefined) {
+      nodes.push(isSafeHref(linkHref)
+        ? { type: 'link', href: linkHref, children: parseInline(linkText) }
+        : { type: 'text', text: match[0] });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (strike !== undefined) {
+      nodes.push({ type: 'strike', children: parseInline(strike) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (url !== undefined) {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    } else {
+      nodes.push({ type: 'break' });
+    }
+  }
+  pushText(text.slice(lastIndex));
+  return nodes;
+};
+
+const startsBlock = (line: string) =>
+  HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || FENCE.test(line) || LIST_ITEM.test(line);
+
+// Lines are parsed with their position in the full text so task items can be toggled in place
+const parseLines = (lines: string[], offset: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+    } else if (FENCE.test(line)) {
+      const end = lines.findIndex((candidate, i) => i > index && FENCE.test(candidate));
+      const closing = end === -1 ? lines.length : end;
+      blocks.push({ type: 'code', text: lines.slice(index + 1, closing).join('\n') });
+      index = closing + 1;
+    } else if (HEADING.test(line)) {
+      const [, hashes, content] = HEADING.exec(line);
+      blocks.push({ type: 'heading', level: hashes.length as 1 | 2 | 3, children: parseInline(content) });
+      index++;
+    } else if (RULE.test(line)) {
+      // Checked before lists so "* * *" is a rule, as in GFM
+      blocks.push({ type: 'rule' });
+      index++;
+    } else if (QUOTE.test(line)) {
+      const start = index;
+      while (index < lines.length && QUOTE.test(lines[index])) index++;
+      const quoted = lines.slice(start, index).map(quoteLine => QUOTE.exec(quoteLine)[1]);
+      blocks.push({ type: 'quote', children: parseLines(quoted, offset + start) });
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = !!LIST_ITEM.exec(line)[2];
+      const items: MarkdownListItem[] = [];
+      const start = Number(LIST_ITEM.exec(line)[2]) || 1;
+      while (index < lines.length && lines[index].trim()) {
+        const item = LIST_ITEM.exec(lines[index]);
+        if (item && !!item[2] === ordered) {
+          const task = TASK_ITEM.exec(item[3]);
+          items.push({
+            children: parseInline(task ? task[2] : item[3]),
+            checked: task ? task[1] !== ' ' : undefined,
+            line: offset + index
+          });
+        } else if (!item && !startsBlock(lines[index]) && items.length > 0) {
+          // Lazy continuation of the previous item
+          const previous = items[items.length - 1];
+          previous.children = [...previous.children, { type: 'break' }, ...parseInline(lines[index].trim())];
+        } else {
+          break;
+        }
+        index++;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+    } else {
+      const start = index;
+      while (index < lines.length && lines[index].trim() && (index === start || !startsBlock(lines[index]))) {
+        index++;
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(lines.slice(start, index).join('\n')) });
+    }
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseLines(text.split('\n'), 0);
+
+// Flips the "[ ]" / "[x]" marker of the task item on the given line
+export const toggleTaskListItem = (text: string, line: number) => {
+  const lines = text.split('\n');
+  if (line < 0 || line >= lines.length) return text;
+  lines[line] = lines[line].replace(
+    /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])(\])/,
+    (_, before, marker, after) => `${before}${marker === ' ' ? 'x' : ' '}${after}`
+  );
+  return lines.join('\n');
+};
+
+export const getInlinePlainText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'mention':
+        return `#${node.label}`;
+      case 'break':
+        return ' ';
+      default:
+        return getInlinePlainText(node.children);
+    }
+  }).join('');
+
+const blocksToPlainText = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap(block => {
+    switch (block.type) {
+      case 'code':
+        return [block.text];
+      case 'rule':
+        return [];
+      case 'quote':
+        return blocksToPlainText(block.children);
+      case 'list':
+        return block.items.map(item => getInlinePlainText(item.children));
+      default:
+        return [getInlinePlainText(block.children)];
+    }
+  });
+
+// Description without markup, for previews
+export const getMarkdownPlainText = (text: string) => blocksToPlainText(parseMarkdown(text)).join(' ');
@@ -0,0 +1,57 @@
+import { Task } from "@/types/Task";
+
+// Mentions are stored as #[Title](task-id): readable in the raw text, and the id keeps the
+// link working when the target is renamed. The stored title is only shown if the target is gone
+const MENTION_PATTERN = /#\[([^\]\n]*)\]\(([\w-]+)\)/g;
+
+// Mentions render at most this many suggestions while typing
+export const MAX_MENTION_SUGGESTIONS = 6;
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; taskId: string; label: string };
+
+export const createMention = (task: Pick<Task, 'id' | 'title'>) =>
+  `#[${task.title.replace(/[[\]\n]/g, ' ').trim()}](${task.id})`;
+
+export const parseMentions = (text: string): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'mention', label: match[1], taskId: match[2] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+export const getMentionedTaskIds = (text: string) =>
+  [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[2]))];
+
+// For every mentioned task id, the tasks whose description links to it
+export const getBacklinkMap = (tasks: Task[]) =>
+  tasks.reduce<Record<string, Task[]>>((backlinks, task) => {
+    getMentionedTaskIds(task.description)
+      .filter(taskId => taskId !== task.id)
+      .forEach(taskId => {
+        backlinks[taskId] = [...(backlinks[taskId] || []), task];
+      });
+    return backlinks;
+  }, {});
+
+// The "#query" being typed right before the caret, if any
+export const getMentionQuery = (text: string, caret: number) => {
+  const match = /(?:^|\s)#([^\s#[\]()]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+};
+
+export const findMentionSuggestions = (tasks: Task[], query: string, excludeId?: string) =>
+  tasks
+    .filter(task => task.id !== excludeId && task.title.toLowerCase().includes(query.toLowerCase()))
+    .slice(0, MAX_MENTION_SUGGESTIONS);
@@ -0,0 +1,27 @@
+import { Task } from "@/types/Task";
+import { SortDirection } from "@/lib/sort";
+
+// Space left between a moved task and the end of the list it was dropped at
+const ORDER_GAP = 1000;
+
+// Tasks that were never moved keep their insertion order
+export const getTaskOrder = (task: Pick<Task, 'order' | 'createdAt'>) => task.order ?? task.createdAt;
+
+// Order value that puts the task at targetIndex of the list as displayed. Only its displayed
+// neighbours are considered, so moving tasks in a filtered list leaves hidden ones where they were
+export const getOrderForPosition = (
+  displayedTasks: Task[],
+  taskId: string,
+  targetIndex: number,
+  direction: SortDirection
+) => {
+  const others = displayedTasks.filter(task => task.id !== taskId);
+  const before = others[targetIndex - 1];
+  const after = others[targetIndex];
+  const step = direction === 'asc' ? ORDER_GAP : -ORDER_GAP;
+
+  if (!before && !after) return undefined;
+  if (!before) return getTaskOrder(after) - step;
+  if (!after) return getTaskOrder(before) + step;
+  return (getTaskOrder(before) + getTaskOrder(after)) / 2;
+};
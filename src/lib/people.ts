@@ -0,0 +1,30 @@
+import { Person } from "@/types/Person";
+import { createId } from "@/lib/utils";
+import { TAG_COLORS } from "@/lib/tags";
+
+export const createPerson = (name: string, color: string): Person => ({
+  id: createId('person'),
+  name: name.trim(),
+  color
+});
+
+export const findPersonByName = (people: Person[], name: string) =>
+  people.find(person => person.name.toLowerCase() === name.trim().toLowerCase());
+
+export const getNextPersonColor = (people: Person[]) => TAG_COLORS[people.length % TAG_COLORS.length];
+
+// "Ada Lovelace" -> "AL", "ada" -> "AD"
+export const getInitials = (name: string) => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return `${words[0][0]}${words[words.length - 1][0]}`.toUpperCase();
+};
+
+export type AssignmentFilter = 'all' | 'me' | 'unassigned';
+
+export const matchesAssignmentFilter = (assigneeIds: string[] = [], filter: AssignmentFilter, currentPersonId: string | null) => {
+  if (filter === 'unassigned') return assigneeIds.length === 0;
+  if (filter === 'me') return !!currentPersonId && assigneeIds.includes(currentPersonId);
+  return true;
+};
@@ -0,0 +1,109 @@
+import { type CSSProperties } from "react";
+import { Task } from "@/types/Task";
+import { PriorityLevel } from "@/types/Priority";
+import { createId } from "@/lib/utils";
+import { TAG_COLORS } from "@/lib/tags";
+
+// Both presets take their colors from the --priority-* tokens in index.css
+export const DEFAULT_PRIORITIES: PriorityLevel[] = [
+  { id: 'high', label: 'High' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'low', label: 'Low' }
+];
+
+export const PRIORITY_PRESETS: { name: string; levels: PriorityLevel[] }[] = [
+  { name: 'High / Medium / Low', levels: DEFAULT_PRIORITIES },
+  {
+    name: 'P0–P4',
+    levels: [0, 1, 2, 3, 4].map(rank => ({ id: `p${rank}`, label: `P${rank}` }))
+  }
+];
+
+export const getPriorityTokenName = (id: string) => `--priority-${id}`;
+
+// Falls back to a neutral color for levels without a token of their own
+export const getPriorityColor = (id: string, alpha?: number) =>
+  `hsl(var(${getPriorityTokenName(id)}, var(--muted-foreground))${alpha === undefined ? '' : ` / ${alpha}`})`;
+
+export const getPriorityChipStyle = (id: string): CSSProperties => ({
+  backgroundColor: getPriorityColor(id, 0.15),
+  borderColor: getPriorityColor(id, 0.4),
+  color: getPriorityColor(id)
+});
+
+// The middle of the scale is the default for new tasks and for ids no longer on it
+export const getDefaultPriority = (levels: PriorityLevel[]) => levels[Math.floor((levels.length - 1) / 2)];
+
+export const getPriorityLevel = (levels: PriorityLevel[], id: string) =>
+  levels.find(level => level.id === id) || getDefaultPriority(levels);
+
+// 0 is the most urgent level
+export const getPriorityRank = (levels: PriorityLevel[], id: string) =>
+  levels.indexOf(getPriorityLevel(levels, id));
+
+export const createPriorityLevel = (label: string, color: string): PriorityLevel => ({
+  id: createId('priority'),
+  label: label.trim(),
+  color
+});
+
+export const findPriorityByLabel = (levels: PriorityLevel[], label: string) =>
+  levels.find(level => level.label.toLowerCase() === label.trim().toLowerCase());
+
+export const getNextPriorityColor = (levels: PriorityLevel[]) =>
+  hexToHslToken(TAG_COLORS[levels.length % TAG_COLORS.length]);
+
+// Moves a level one step up (-1) or down (1) the scale
+export const movePriorityLevel = (levels: PriorityLevel[], id: string, offset: -1 | 1) => {
+  const index = levels.findIndex(level => level.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= levels.length) return levels;
+  const reordered = [...levels];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
+
+// Tasks on a removed level move to the next less urgent one, or the one above at the bottom
+export const getReplacementPriority = (levels: PriorityLevel[], id: string) => {
+  const index = levels.findIndex(level => level.id === id);
+  return levels[index + 1] || levels[index - 1];
+};
+
+// Keeps each task at the same relative position when switching to a scale with more or fewer levels
+export const mapTaskPriorities = (tasks: Task[], from: PriorityLevel[], to: PriorityLevel[]) =>
+  tasks.map(task => {
+    if (to.some(level => level.id === task.priority)) return task;
+    const position = from.length > 1 ? getPriorityRank(from, task.priority) / (from.length - 1) : 0.5;
+    return { ...task, priority: to[Math.round(position * (to.length - 1))].id };
+  });
+
+// The color input works in hex while tokens are stored as "H S% L%"
+export const hexToHslToken = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return `0 0% ${Math.round(lightness * 100)}%`;
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return `${Math.round((hue * 60 + 360) % 360)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+};
+
+export const hslTokenToHex = (token: string) => {
+  const [hue, saturation, lightness] = token.split(/\s+/).map(part => parseFloat(part));
+  if ([hue, saturation, lightness].some(Number.isNaN)) return '#808080';
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// The color a level currently renders with, whether it comes from the scale or the stylesheet
+export const readPriorityToken = (level: PriorityLevel) =>
+  level.color || getComputedStyle(document.documentElement).getPropertyValue(getPriorityTokenName(level.id)).trim();
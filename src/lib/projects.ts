@@ -0,0 +1,39 @@
+import { Task } from "@/types/Task";
+import { Project } from "@/types/Project";
+import { createId } from "@/lib/utils";
+import { isTaskDone } from "@/lib/status";
+
+export const INBOX_PATH = '/inbox';
+export const ARCHIVE_PATH = '/archive';
+export const TRASH_PATH = '/trash';
+
+export const getProjectPath = (projectId: string) => `/projects/${projectId}`;
+
+export const createProject = (name: string): Project => ({
+  id: createId('project'),
+  name: name.trim(),
+  createdAt: Date.now()
+});
+
+export const findProjectByName = (projects: Project[], name: string) =>
+  projects.find(project => project.name.toLowerCase() === name.trim().toLowerCase());
+
+export interface ProjectTaskCounts {
+  all: number;
+  inbox: number;
+  byProject: Record<string, number>;
+}
+
+// Counts only open tasks, so the navigator shows what is left to do
+export const countOpenTasks = (tasks: Task[]): ProjectTaskCounts =>
+  tasks
+    .filter(task => !isTaskDone(task) && !task.deletedAt)
+    .reduce<ProjectTaskCounts>((counts, task) => {
+      counts.all += 1;
+      if (task.projectId) {
+        counts.byProject[task.projectId] = (counts.byProject[task.projectId] || 0) + 1;
+      } else {
+        counts.inbox += 1;
+      }
+      return counts;
+    }, { all: 0, inbox: 0, byProject: {} });
@@ -0,0 +1,169 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfDay,
+  getDaysInMonth,
+  isWeekend,
+  setDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from "date-fns";
+import { RepeatRule, Task } from "@/types/Task";
+import { createId } from "@/lib/utils";
+import { DEFAULT_STATUS } from "@/lib/status";
+import { parseDateKey, toDateKey } from "@/lib/dates";
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th'];
+
+export const createRepeatRule = (date: Date = new Date()): RepeatRule => ({
+  frequency: 'weekly',
+  interval: 1,
+  weekDays: [date.getDay()],
+  monthlyBy: 'date',
+  monthDay: date.getDate(),
+  end: { type: 'never' },
+  occurrence: 1
+});
+
+// Which week of the month a date falls in; the 5th week is treated as "last"
+export const getWeekOfMonth = (date: Date) => Math.ceil(date.getDate() / 7);
+
+const getNthWeekdayOfMonth = (month: Date, weekday: number, week: number) => {
+  const first = startOfMonth(month);
+  const firstMatch = addDays(first, (weekday - first.getDay() + 7) % 7);
+  const nth = addDays(firstMatch, (week - 1) * 7);
+  // Months without a 5th occurrence fall back to the last one
+  return nth.getMonth() === first.getMonth() ? nth : addDays(nth, -7);
+};
+
+const getNextDate = (rule: RepeatRule, from: Date): Date => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+    case 'weekdays': {
+      let next = addDays(from, 1);
+      while (isWeekend(next)) {
+        next = addDays(next, 1);
+      }
+      return next;
+    }
+    case 'weekly': {
+      const days = [...(rule.weekDays?.length ? rule.weekDays : [from.getDay()])].sort((a, b) => a - b);
+      const laterThisWeek = days.find(day => day > from.getDay());
+      if (laterThisWeek !== undefined) {
+        return addDays(from, laterThisWeek - from.getDay());
+      }
+      return addDays(addWeeks(startOfWeek(from), interval), days[0]);
+    }
+    case 'monthly': {
+      const month = addMonths(startOfMonth(from), interval);
+      if (rule.monthlyBy === 'weekday') {
+        return getNthWeekdayOfMonth(month, from.getDay(), getWeekOfMonth(from));
+      }
+      const day = rule.monthDay || from.getDate();
+      return setDate(month, Math.min(day, getDaysInMonth(month)));
+    }
+    default:
+      return addDays(from, interval);
+  }
+};
+
+// Next due date after the given occurrence, or null when the series has ended
+export const getNextOccurrenceDate = (task: Task): Date | null => {
+  const rule = task.repeat;
+  if (!rule) return null;
+
+  if (rule.end.type === 'count' && rule.occurrence >= rule.end.count) {
+    return null;
+  }
+
+  // Tasks without a due date repeat relative to the day they were completed
+  const from = startOfDay(task.dueDate ? parseDateKey(task.dueDate) : new Date());
+  const next = getNextDate(rule, from);
+
+  if (rule.end.type === 'date' && next.getTime() > endOfDay(new Date(rule.end.date)).getTime()) {
+    return null;
+  }
+  return next;
+};
+
+// The rule moves to the new occurrence so the completed one can be reopened without forking the series
+export const createNextOccurrence = (task: Task): Task | null => {
+  const nextDate = getNextOccurrenceDate(task);
+  if (!nextDate) return null;
+
+  // Keep the same lead time between start and due date for the next occurrence
+  const startOffset = task.startDate && task.dueDate
+    ? differenceInCalendarDays(parseDateKey(task.startDate), parseDateKey(task.dueDate))
+    : null;
+
+  return {
+    ...task,
+    id: createId('task'),
+    status: DEFAULT_STATUS,
+    dueDate: toDateKey(nextDate),
+    startDate: startOffset === null ? undefined : toDateKey(addDays(nextDate, startOffset)),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    completedAt: undefined,
+    checklist: task.checklist?.map(item => ({ ...item, id: createId('item'), isCompleted: false })),
+    timeEntries: undefined,
+    comments: undefined,
+    history: undefined,
+    repeat: { ...task.repeat, occurrence: task.repeat.occurrence + 1 }
+  };
+};
+
+const pluralize = (count: number, unit: string) => count === 1 ? unit : `${count} ${unit}s`;
+
+export const describeRepeatRule = (rule: RepeatRule, dueDate?: string) => {
+  const interval = Math.max(1, rule.interval || 1);
+  const anchor = dueDate ? parseDateKey(dueDate) : null;
+  let summary: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      summary = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekdays':
+      summary = 'Every weekday';
+      break;
+    case 'weekly': {
+      const days = [...(rule.weekDays || [])].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]);
+      summary = `Every ${pluralize(interval, 'week')}${days.length ? ` on ${days.join(', ')}` : ''}`;
+      break;
+    }
+    case 'monthly': {
+      summary = `Every ${pluralize(interval, 'month')}`;
+      if (rule.monthlyBy === 'weekday') {
+        summary += anchor ? ` on the ${describeWeekOfMonth(anchor)}` : ' on the same weekday';
+      } else {
+        const day = rule.monthDay || anchor?.getDate();
+        summary += day ? ` on day ${day}` : '';
+      }
+      break;
+    }
+    default:
+      summary = 'Repeats';
+  }
+
+  if (rule.end.type === 'count') {
+    summary += `, ${rule.occurrence} of ${rule.end.count}`;
+  } else if (rule.end.type === 'date') {
+    summary += `, until ${new Date(rule.end.date).toLocaleDateString()}`;
+  }
+  return summary;
+};
+
+// e.g. "2nd Tue" or "last Fri"
+export const describeWeekOfMonth = (date: Date) => {
+  const week = getWeekOfMonth(date);
+  return `${week === 5 ? 'last' : ORDINALS[week - 1]} ${WEEKDAY_LABELS[date.getDay()]}`;
+};
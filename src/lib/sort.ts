@@ -0,0 +1,83 @@
+import { Task } from "@/types/Task";
+import { CustomFieldDefinition } from "@/types/CustomField";
+import { PriorityLevel } from "@/types/Priority";
+import { compareCustomFieldValues, isEmptyFieldValue } from "@/lib/customFields";
+import { getDueInstant } from "@/lib/dates";
+import { getPriorityRank } from "@/lib/priorities";
+import { getTaskOrder } from "@/lib/ordering";
+
+export type SortDirection = 'asc' | 'desc';
+
+// Built-in keys, or "field:<id>" for a custom field
+export type TaskSortKey = 'manual' | 'created' | 'updated' | 'completed' | 'due' | 'priority' | 'title' | `field:${string}`;
+
+export interface TaskSort {
+  key: TaskSortKey;
+  direction: SortDirection;
+}
+
+export const DEFAULT_SORT: TaskSort = { key: 'manual', direction: 'asc' };
+
+export const BUILT_IN_SORT_LABELS: Record<string, string> = {
+  manual: 'Manual order',
+  created: 'Created',
+  updated: 'Last updated',
+  completed: 'Completed',
+  due: 'Due date',
+  priority: 'Priority',
+  title: 'Title'
+};
+
+export const getCustomFieldSortKey = (fieldId: string): TaskSortKey => `field:${fieldId}`;
+
+// Returns the value to sort by, or undefined when the task has none
+const getSortValue = (
+  task: Task,
+  key: TaskSortKey,
+  fields: CustomFieldDefinition[],
+  priorities: PriorityLevel[]
+) => {
+  switch (key) {
+    case 'manual':
+      return getTaskOrder(task);
+    case 'created':
+      return task.createdAt;
+    case 'updated':
+      return task.updatedAt;
+    case 'completed':
+      return task.completedAt;
+    case 'due':
+      return getDueInstant(task)?.getTime();
+    case 'priority':
+      return getPriorityRank(priorities, task.priority);
+    case 'title':
+      return task.title;
+    default: {
+      const field = fields.find(f => getCustomFieldSortKey(f.id) === key);
+      const value = field && task.customFields?.[field.id];
+      return isEmptyFieldValue(value) ? undefined : value;
+    }
+  }
+};
+
+// Tasks without a value always go last, whichever the direction; ties keep their order
+export const sortTasks = (
+  tasks: Task[],
+  sort: TaskSort,
+  fields: CustomFieldDefinition[],
+  priorities: PriorityLevel[]
+) => {
+  const field = fields.find(f => getCustomFieldSortKey(f.id) === sort.key);
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return [...tasks].sort((a, b) => {
+    const aValue = getSortValue(a, sort.key, fields, priorities);
+    const bValue = getSortValue(b, sort.key, fields, priorities);
+    if (aValue === undefined || bValue === undefined) {
+      return aValue === bValue ? 0 : aValue === undefined ? 1 : -1;
+    }
+    if (field) return sign * compareCustomFieldValues(field, aValue, bValue);
+    if (typeof aValue === 'string') return sign * aValue.localeCompare(bValue as string);
+    return sign * ((aValue as number) - (bValue as number));
+  });
+};
@@ -0,0 +1,39 @@
+import { Task, TaskStatus } from "@/types/Task";
+import { StatusDefinition } from "@/types/Status";
+import { createId } from "@/lib/utils";
+
+export const DONE_STATUS = 'done';
+export const DEFAULT_STATUS = 'todo';
+
+const OPEN_BUILT_IN_STATUSES: StatusDefinition[] = [
+  { id: 'todo', label: 'To Do', color: '#64748b', isBuiltIn: true },
+  { id: 'in-progress', label: 'In Progress', color: '#3b82f6', isBuiltIn: true },
+  { id: 'blocked', label: 'Blocked', color: '#ef4444', isBuiltIn: true }
+];
+
+const DONE_BUILT_IN_STATUS: StatusDefinition = { id: DONE_STATUS, label: 'Done', color: '#22c55e', isBuiltIn: true };
+
+// Custom states are workflow steps between the open built-ins and "Done"
+export const getWorkflowStatuses = (customStatuses: StatusDefinition[]): StatusDefinition[] => [
+  ...OPEN_BUILT_IN_STATUSES,
+  ...customStatuses,
+  DONE_BUILT_IN_STATUS
+];
+
+export const createStatus = (label: string, color: string): StatusDefinition => ({
+  id: createId('status'),
+  label: label.trim(),
+  color
+});
+
+export const isTaskDone = (task: Pick<Task, 'status'>) => task.status === DONE_STATUS;
+
+export const getStatusDefinition = (statuses: StatusDefinition[], status: TaskStatus) =>
+  statuses.find(definition => definition.id === status) || OPEN_BUILT_IN_STATUSES[0];
+
+// Tasks saved before the status workflow only carry an isCompleted flag
+export const migrateTaskStatus = (task: Task & { isCompleted?: boolean }): Task => {
+  if (task.status) return task;
+  const { isCompleted, ...rest } = task;
+  return { ...rest, status: isCompleted ? DONE_STATUS : DEFAULT_STATUS };
+};
@@ -0,0 +1,91 @@
+import { Task } from "@/types/Task";
+import { TASK_SCHEMA_VERSION, readTaskRecord } from "@/lib/taskSchema";
+
+// A task as the server holds it; the revision of its last write doubles as its ETag
+export interface ServerTask {
+  task: Task;
+  revision: number;
+}
+
+export interface ServerTaskList {
+  // Latest revision on the server when the list was read
+  revision: number;
+  tasks: ServerTask[];
+}
+
+// A response the server rejected. 409 and 412 carry the server's current copy of the task
+export class SyncRequestError extends Error {
+  constructor(readonly status: number, message: string, readonly current?: ServerTask) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+const toEtag = (revision: number) => `"${revision}"`;
+
+// Tasks from the server are validated like stored ones (they're sent in the current shape, so
+// there is nothing to migrate); anything that doesn't validate is left out
+const readServerTask = (value: ServerTask): ServerTask | null => {
+  if (typeof value?.revision !== 'number') return null;
+  const result = readTaskRecord({ id: value.task?.id, version: TASK_SCHEMA_VERSION, task: value.task });
+  return 'error' in result ? null : { task: result.task, revision: value.revision };
+};
+
+const request = async (url: string, init: RequestInit = {}) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  if (response.ok || response.status === 304) return response;
+
+  const body = await response.json().catch(() => ({}));
+  throw new SyncRequestError(response.status, body.error || response.statusText, readServerTask(body.current) || undefined);
+};
+
+const readServerTaskResponse = async (response: Response) => {
+  const serverTask = readServerTask(await response.json());
+  if (!serverTask) throw new SyncRequestError(502, 'The server sent back a task that is not valid');
+  return serverTask;
+};
+
+// Passing the previous list makes the request conditional; an unchanged list comes back as-is
+export const fetchTaskList = async (baseUrl: string, previous?: ServerTaskList): Promise<ServerTaskList> => {
+  const response = await request(`${baseUrl}/tasks`, {
+    headers: previous ? { 'If-None-Match': toEtag(previous.revision) } : {}
+  });
+  if (response.status === 304 && previous) return previous;
+
+  const list = await response.json();
+  return {
+    revision: list.revision,
+    tasks: (list.tasks || []).map(readServerTask).filter(Boolean)
+  };
+};
+
+export const fetchServerTask = async (baseUrl: string, id: string) => {
+  try {
+    return await readServerTaskResponse(await request(`${baseUrl}/tasks/${encodeURIComponent(id)}`));
+  } catch (error) {
+    if (error instanceof SyncRequestError && error.status === 404) return null;
+    throw error;
+  }
+};
+
+export const createServerTask = async (baseUrl: string, task: Task) =>
+  readServerTaskResponse(await request(`${baseUrl}/tasks`, { method: 'POST', body: JSON.stringify(task) }));
+
+export const updateServerTask = async (baseUrl: string, task: Task, revision: number) =>
+  readServerTaskResponse(await request(`${baseUrl}/tasks/${encodeURIComponent(task.id)}`, {
+    method: 'PUT',
+    headers: { 'If-Match': toEtag(revision) },
+    body: JSON.stringify(task)
+  }));
+
+// Resolves to the revision of the delete
+export const deleteServerTask = async (baseUrl: string, id: string, revision: number): Promise<number> => {
+  const response = await request(`${baseUrl}/tasks/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: { 'If-Match': toEtag(revision) }
+  });
+  return (await response.json()).revision;
+};
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Task } from "@/types/Task";
+import { SyncRequestError, createServerTask, deleteServerTask, updateServerTask } from "@/lib/syncApi";
+import {
+  SYNC_SETTINGS_KEY,
+  enqueueTaskChanges,
+  readSyncQueue,
+  readSyncRevisions,
+  reconcileServerTasks,
+  replaySyncQueue,
+  retryFailedOperations,
+  writeSyncRevisions
+} from "@/lib/syncQueue";
+
+vi.mock("@/lib/syncApi", async importOriginal => ({
+  ...await importOriginal<typeof import("@/lib/syncApi")>(),
+  createServerTask: vi.fn(),
+  updateServerTask: vi.fn(),
+  deleteServerTask: vi.fn(),
+  fetchServerTask: vi.fn()
+}));
+
+const SERVER_URL = 'http://localhost:3001/api';
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  priority: 'medium',
+  status: 'todo',
+  createdAt: 1,
+  updatedAt: 10,
+  ...extra
+});
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+};
+
+describe("reconcileServerTasks", () => {
+  it("takes newer server versions, except of tasks with local changes queued", () => {
+    const list = {
+      revision: 7,
+      tasks: [{ task: task('a', { title: 'From server' }), revision: 6 }, { task: task('b'), revision: 7 }]
+    };
+    const queue = [{ id: 'op', taskId: 'b', title: 'Task b', queuedAt: 1, type: 'delete' as const }];
+
+    const { changes, revisions } = reconcileServerTasks([task('a'), task('b')], list, { a: 3, b: 2 }, queue);
+
+    expect(changes).toEqual({ put: [list.tasks[0].task], deleted: [] });
+    expect(revisions).toEqual({ a: 6, b: 2 });
+  });
+
+  it("deletes tasks the server no longer has, unless the list predates their last write", () => {
+    const list = { revision: 5, tasks: [] };
+
+    const { changes, revisions } = reconcileServerTasks([task('a'), task('b')], list, { a: 4, b: 6 }, []);
+
+    expect(changes).toEqual({ put: [], deleted: ['a'] });
+    expect(revisions).toEqual({ b: 6 });
+  });
+
+  it("uploads local tasks the server has never seen", () => {
+    const list = { revision: 1, tasks: [{ task: task('a'), revision: 1 }] };
+
+    const { uploads } = reconcileServerTasks([task('a'), task('b')], list, { a: 1 }, []);
+
+    expect(uploads).toEqual([task('b')]);
+  });
+});
+
+describe("replaySyncQueue", () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    // No Web Locks outside the browser, so the replay runs without one
+    vi.stubGlobal('navigator', {});
+    localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify({ enabled: true, url: SERVER_URL }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  it("sends changes made offline in the order they were made", async () => {
+    vi.mocked(createServerTask).mockImplementation(async (_, sent) => ({ task: sent, revision: 2 }));
+    vi.mocked(deleteServerTask).mockResolvedValue(3);
+    writeSyncRevisions({ b: 1 });
+    await enqueueTaskChanges({ put: [{ task: task('a') }], deleted: [] });
+    await enqueueTaskChanges({ put: [], deleted: [{ id: 'b', base: task('b') }] });
+
+    const rejected = await replaySyncQueue(SERVER_URL, vi.fn());
+
+    expect(rejected).toEqual([]);
+    expect(createServerTask).toHaveBeenCalledWith(SERVER_URL, task('a'));
+    expect(deleteServerTask).toHaveBeenCalledWith(SERVER_URL, 'b', 1);
+    expect(await readSyncQueue()).toEqual([]);
+    expect(readSyncRevisions()).toEqual({ a: 2, b: 3 });
+  });
+
+  it("keeps the queue when the server can't be reached", async () => {
+    vi.mocked(createServerTask).mockRejectedValue(new TypeError('Failed to fetch'));
+    await enqueueTaskChanges({ put: [{ task: task('a') }], deleted: [] });
+
+    await expect(replaySyncQueue(SERVER_URL, vi.fn())).rejects.toThrow('Failed to fetch');
+
+    expect(await readSyncQueue()).toEqual([expect.objectContaining({ taskId: 'a', type: 'put' })]);
+  });
+
+  it("merges with the server's copy after a conflict and sends the result", async () => {
+    const base = task('a');
+    const local = { ...base, title: 'Edited here', updatedAt: 20 };
+    const remote = { ...base, description: 'Edited elsewhere', updatedAt: 30 };
+    writeSyncRevisions({ a: 1 });
+    vi.mocked(updateServerTask)
+      .mockRejectedValueOnce(new SyncRequestError(412, 'Task was changed', { task: remote, revision: 2 }))
+      .mockImplementationOnce(async (_, sent) => ({ task: sent, revision: 3 }));
+    await enqueueTaskChanges({ put: [{ task: local, base }], deleted: [] });
+    const onServerChanges = vi.fn();
+
+    expect(await replaySyncQueue(SERVER_URL, onServerChanges)).toEqual([]);
+
+    const [, merged, revision] = vi.mocked(updateServerTask).mock.calls[1];
+    expect(merged).toMatchObject({ title: 'Edited here', description: 'Edited elsewhere' });
+    expect(revision).toBe(2);
+    expect(onServerChanges).toHaveBeenCalledWith({ put: [merged], deleted: [] });
+    expect(readSyncRevisions()).toEqual({ a: 3 });
+  });
+
+  it("marks a change failed after repeated conflicts and keeps it queued until retried", async () => {
+    writeSyncRevisions({ a: 1 });
+    vi.mocked(updateServerTask).mockImplementation(async () => {
+      throw new SyncRequestError(409, 'Task was changed', { task: task('a'), revision: 2 });
+    });
+    await enqueueTaskChanges({ put: [{ task: task('a', { title: 'Edited here' }) }], deleted: [] });
+
+    const rejected = await replaySyncQueue(SERVER_URL, vi.fn());
+
+    expect(updateServerTask).toHaveBeenCalledTimes(3);
+    expect(rejected).toEqual([expect.objectContaining({ taskId: 'a' })]);
+    expect(await readSyncQueue()).toEqual([expect.objectContaining({ taskId: 'a', error: 'Task was changed' })]);
+
+    await retryFailedOperations();
+    expect((await readSyncQueue())[0]).not.toHaveProperty('error');
+  });
+
+  it("keeps sending the rest of the queue after a change the server refuses", async () => {
+    vi.mocked(createServerTask)
+      .mockRejectedValueOnce(new SyncRequestError(400, 'Expected a task with a string id and title'))
+      .mockImplementationOnce(async (_, sent) => ({ task: sent, revision: 1 }));
+    await enqueueTaskChanges({ put: [{ task: task('a') }, { task: task('b') }], deleted: [] });
+
+    const rejected = await replaySyncQueue(SERVER_URL, vi.fn());
+
+    expect(rejected.map(operation => operation.taskId)).toEqual(['a']);
+    expect(await readSyncQueue()).toEqual([
+      expect.objectContaining({ taskId: 'a', error: 'Expected a task with a string id and title' })
+    ]);
+    expect(readSyncRevisions()).toEqual({ b: 1 });
+  });
+});
@@ -0,0 +1,239 @@
+import { Task } from "@/types/Task";
+import { SyncOperation, SyncSettings } from "@/types/Sync";
+import { createId } from "@/lib/utils";
+import { isSameValue } from "@/lib/history";
+import { mergeTaskVersions } from "@/lib/taskMerge";
+import { TaskChanges, openTaskStorage } from "@/lib/taskStorage";
+import type { TaskSyncMessage } from "@/lib/tabSync";
+import {
+  ServerTaskList,
+  SyncRequestError,
+  createServerTask,
+  deleteServerTask,
+  fetchServerTask,
+  updateServerTask
+} from "@/lib/syncApi";
+
+export const SYNC_SETTINGS_KEY = 'syncSettings';
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, url: 'http://localhost:3001/api' };
+
+// Server revision of every task as this browser last saw it. Deleted tasks keep the revision of
+// their delete until the server's list confirms it, so an older list can't bring them back.
+// Only numbers per id, so it stays small enough for localStorage; the queue itself, which holds
+// whole tasks, lives in the task storage adapter
+const REVISIONS_KEY = 'syncRevisions';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const readSyncSettings = () => readJson<SyncSettings>(SYNC_SETTINGS_KEY, DEFAULT_SYNC_SETTINGS);
+export const readSyncRevisions = () => readJson<Record<string, number>>(REVISIONS_KEY, {});
+
+export const writeSyncRevisions = (revisions: Record<string, number>) => {
+  try {
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+  } catch {
+    throw new Error("Couldn't save sync progress. Browser storage may be full");
+  }
+};
+
+const setRevision = (id: string, revision: number) => writeSyncRevisions({ ...readSyncRevisions(), [id]: revision });
+
+const queueListeners = new Set<(queue: SyncOperation[]) => void>();
+
+export const subscribeToSyncQueue = (listener: (queue: SyncOperation[]) => void) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+export const readSyncQueue = async () => (await openTaskStorage()).loadSyncQueue();
+
+const updateSyncQueue = async (update: (queue: SyncOperation[]) => SyncOperation[]) => {
+  const queue = await (await openTaskStorage()).updateSyncQueue(update);
+  queueListeners.forEach(listener => listener(queue));
+};
+
+// Switching servers starts over: the new one gets every local task uploaded
+export const resetSyncState = async () => {
+  localStorage.removeItem(REVISIONS_KEY);
+  await updateSyncQueue(() => []);
+};
+
+// Changes are queued while sync is on, and also while it's paused once it has been used,
+// so nothing made in between is missed when it's turned back on
+export const enqueueTaskChanges = async ({ put, deleted }: TaskSyncMessage) => {
+  if (!readSyncSettings().enabled && Object.keys(readSyncRevisions()).length === 0) return;
+  if (put.length === 0 && deleted.length === 0) return;
+
+  const queuedAt = Date.now();
+  await updateSyncQueue(queue => {
+    const queuedBases = new Map(queue.map(operation =>
+      [operation.taskId, operation.type === 'put' ? operation.base : undefined]
+    ));
+    const operations: SyncOperation[] = [
+      ...put.map(({ task, base }) => ({
+        id: createId('sync'),
+        taskId: task.id,
+        queuedAt,
+        title: task.title,
+        type: 'put' as const,
+        task,
+        base: queuedBases.has(task.id) ? queuedBases.get(task.id) : base
+      })),
+      ...deleted.map(({ id, base }) => ({
+        id: createId('sync'),
+        taskId: id,
+        title: base?.title || 'Untitled task',
+        queuedAt,
+        type: 'delete' as const
+      }))
+    ];
+    const taskIds = new Set(operations.map(operation => operation.taskId));
+    return [...queue.filter(operation => !taskIds.has(operation.taskId)), ...operations];
+  });
+};
+
+// Removed by id, so a newer change queued for the same task while this one was sent stays queued
+const removeOperation = (id: string) => updateSyncQueue(queue => queue.filter(operation => operation.id !== id));
+
+// A refused change stays queued, skipped until it's retried, replaced by a newer change or discarded
+const markOperationFailed = (id: string, error: string) =>
+  updateSyncQueue(queue => queue.map(operation => operation.id === id ? { ...operation, error } : operation));
+
+export const isFailedOperation = (operation: SyncOperation) => !!operation.error;
+
+export const retryFailedOperations = () =>
+  updateSyncQueue(queue => queue.map(operation => {
+    if (!operation.error) return operation;
+    const { error, ...retried } = operation;
+    return retried as SyncOperation;
+  }));
+
+export const discardOperation = (id: string) => removeOperation(id);
+
+// Statuses worth retrying later: the server or the network is having trouble, not the request
+const isRetryable = (error: unknown) =>
+  !(error instanceof SyncRequestError) || error.status >= 500 || error.status === 408 || error.status === 429;
+
+const isConflict = (error: unknown): error is SyncRequestError =>
+  error instanceof SyncRequestError && [404, 409, 412].includes(error.status);
+
+// Someone else may write the task again between the merge and the retry; after this many
+// rounds the change is marked failed instead
+const MAX_CONFLICT_ATTEMPTS = 3;
+
+const replayPut = async (
+  baseUrl: string,
+  { task, base }: { task: Task; base?: Task },
+  onServerChanges: (changes: TaskChanges) => void
+) => {
+  let revision = readSyncRevisions()[task.id];
+  let merged = task;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const saved = revision === undefined
+        ? await createServerTask(baseUrl, merged)
+        : await updateServerTask(baseUrl, merged, revision);
+      setRevision(task.id, saved.revision);
+      if (!isSameValue(merged, task)) onServerChanges({ put: [merged], deleted: [] });
+      return;
+    } catch (error) {
+      if (!isConflict(error) || attempt >= MAX_CONFLICT_ATTEMPTS) throw error;
+
+      // Changed or removed on the server since this browser last saw it. An edit wins over a delete;
+      // two edits are merged the same way as edits from two tabs
+      const current = error.status === 404 ? null : error.current || await fetchServerTask(baseUrl, task.id);
+      merged = current ? mergeTaskVersions(task, current.task, base).task : task;
+      revision = current?.revision;
+    }
+  }
+};
+
+const replayDelete = async (baseUrl: string, taskId: string, onServerChanges: (changes: TaskChanges) => void) => {
+  const revision = readSyncRevisions()[taskId];
+  // Never reached the server, so there is nothing to delete there
+  if (revision === undefined) return;
+  try {
+    setRevision(taskId, await deleteServerTask(baseUrl, taskId, revision));
+  } catch (error) {
+    if (!(error instanceof SyncRequestError)) throw error;
+    if (error.status === 404) return;
+    if (error.status !== 412 || !error.current) throw error;
+    // Edited on the server in the meantime: the edit wins, so the task comes back here
+    setRevision(taskId, error.current.revision);
+    onServerChanges({ put: [error.current.task], deleted: [] });
+  }
+};
+
+const REPLAY_LOCK = 'task-sync-replay';
+
+const findNextOperation = async () => (await readSyncQueue()).find(operation => !isFailedOperation(operation));
+
+const sendQueuedOperations = async (baseUrl: string, onServerChanges: (changes: TaskChanges) => void) => {
+  const rejected: SyncOperation[] = [];
+  for (let operation = await findNextOperation(); operation; operation = await findNextOperation()) {
+    try {
+      if (operation.type === 'put') {
+        await replayPut(baseUrl, operation, onServerChanges);
+      } else {
+        await replayDelete(baseUrl, operation.taskId, onServerChanges);
+      }
+      await removeOperation(operation.id);
+    } catch (error) {
+      if (isRetryable(error)) throw error;
+      await markOperationFailed(operation.id, (error as Error).message);
+      rejected.push(operation);
+    }
+  }
+  return rejected;
+};
+
+// Sends queued changes in order. Stops at the first network or server failure and leaves the rest
+// queued; changes the server refuses outright stay queued as failed and are returned.
+// Only one tab replays at a time
+export const replaySyncQueue = async (baseUrl: string, onServerChanges: (changes: TaskChanges) => void) => {
+  if (!navigator.locks) return sendQueuedOperations(baseUrl, onServerChanges);
+  return await navigator.locks.request(REPLAY_LOCK, () => sendQueuedOperations(baseUrl, onServerChanges));
+};
+
+// Works out what a fresh server list means for the local tasks: server changes to take (unless the
+// task has local changes queued, which win until they're sent), server deletes to apply, and local
+// tasks the server has never seen, to upload
+export const reconcileServerTasks = (
+  localTasks: Task[],
+  list: ServerTaskList,
+  revisions: Record<string, number>,
+  queue: SyncOperation[]
+) => {
+  const pendingIds = new Set(queue.map(operation => operation.taskId));
+  const localIds = new Set(localTasks.map(task => task.id));
+  const serverIds = new Set(list.tasks.map(({ task }) => task.id));
+  const nextRevisions = { ...revisions };
+  const changes: TaskChanges = { put: [], deleted: [] };
+
+  list.tasks.forEach(({ task, revision }) => {
+    if (pendingIds.has(task.id) || (revisions[task.id] ?? 0) >= revision) return;
+    nextRevisions[task.id] = revision;
+    changes.put.push(task);
+  });
+
+  Object.entries(revisions).forEach(([id, revision]) => {
+    // Revisions newer than the list belong to writes the list doesn't include yet
+    if (serverIds.has(id) || pendingIds.has(id) || revision > list.revision) return;
+    delete nextRevisions[id];
+    if (localIds.has(id)) changes.deleted.push(id);
+  });
+
+  const uploads = localTasks.filter(task =>
+    revisions[task.id] === undefined && !serverIds.has(task.id) && !pendingIds.has(task.id)
+  );
+
+  return { changes, revisions: nextRevisions, uploads };
+};
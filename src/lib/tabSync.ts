@@ -0,0 +1,59 @@
+import { Task } from "@/types/Task";
+import type { TaskChanges } from "@/lib/taskStorage";
+
+// What a tab tells the others after it saves. Every task travels with the version the tab had
+// before the save, so a receiver can tell the sender's edits apart from its own
+export interface TaskSyncMessage {
+  put: { task: Task; base?: Task }[];
+  deleted: { id: string; base?: Task }[];
+}
+
+export interface TabSync {
+  post: (message: TaskSyncMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'task-sync';
+// Fallback for browsers without BroadcastChannel: writing a key fires a storage event in the other tabs
+const SYNC_KEY = 'taskSync';
+
+export const createSyncMessage = ({ put, deleted }: TaskChanges, savedTasks: Task[]): TaskSyncMessage => {
+  const savedById = new Map(savedTasks.map(task => [task.id, task]));
+  return {
+    put: put.map(task => ({ task, base: savedById.get(task.id) })),
+    deleted: deleted.map(id => ({ id, base: savedById.get(id) }))
+  };
+};
+
+// Neither transport delivers a tab's own messages back to it
+export const openTabSync = (onMessage: (message: TaskSyncMessage) => void): TabSync => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TaskSyncMessage>) => onMessage(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== SYNC_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue));
+    } catch {
+      // A message that doesn't parse is dropped; the tab catches up on its next load
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(SYNC_KEY, JSON.stringify(message));
+        localStorage.removeItem(SYNC_KEY);
+      } catch {
+        // Storage is full; the other tabs catch up on their next load
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
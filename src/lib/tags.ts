@@ -0,0 +1,27 @@
+import { Tag } from "@/types/Tag";
+import { createId } from "@/lib/utils";
+
+// Preset swatches offered in the tag picker; any hex color is accepted
+export const TAG_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+  '#64748b'
+];
+
+export const createTag = (name: string, color: string): Tag => ({
+  id: createId('tag'),
+  name: name.trim(),
+  color
+});
+
+export const findTagByName = (tags: Tag[], name: string) =>
+  tags.find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+
+// Pick the next preset color so consecutive new tags are told apart
+export const getNextTagColor = (tags: Tag[]) => TAG_COLORS[tags.length % TAG_COLORS.length];
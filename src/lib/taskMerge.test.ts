@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { Task, TaskComment } from "@/types/Task";
+import { applyRemoteChanges, mergeTaskVersions } from "@/lib/taskMerge";
+
+const comment = (id: string, text: string, extra: Partial<TaskComment> = {}): TaskComment => ({
+  id,
+  authorId: 'me',
+  text,
+  createdAt: 1,
+  ...extra
+});
+
+const task = (extra: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Write report',
+  description: '',
+  priority: 'medium',
+  status: 'todo',
+  createdAt: 1,
+  updatedAt: 10,
+  ...extra
+});
+
+describe("mergeTaskVersions", () => {
+  const base = task({ comments: [comment('c1', 'zebra'), comment('c2', 'second')] });
+  // Tab A edited c1 and deleted c2; tab B only changed the title
+  const local = task({ updatedAt: 20, comments: [comment('c1', 'apple', { editedAt: 20 })] });
+  const remote = { ...base, title: 'Write the report', updatedAt: 30 };
+
+  it("keeps comment edits and deletions made on one side when the other edits another field", () => {
+    for (const [a, b] of [[local, remote], [remote, local]]) {
+      const { task: merged, conflicts } = mergeTaskVersions(a, b, base);
+      expect(merged.title).toBe('Write the report');
+      expect(merged.comments).toEqual([comment('c1', 'apple', { editedAt: 20 })]);
+      expect(conflicts).toEqual([]);
+    }
+  });
+
+  it("keeps the later edit of a comment edited on both sides and reports it", () => {
+    const other = task({ updatedAt: 25, comments: [comment('c1', 'mango', { editedAt: 25 }), comment('c2', 'second')] });
+    const { task: merged, conflicts } = mergeTaskVersions(local, other, base);
+    expect(merged.comments).toEqual([comment('c1', 'mango', { editedAt: 25 })]);
+    expect(conflicts).toEqual(['comments']);
+  });
+
+  it("keeps a comment edited on one side and deleted on the other", () => {
+    const other = task({ updatedAt: 25, comments: [comment('c2', 'second')] });
+    const { task: merged, conflicts } = mergeTaskVersions(local, other, base);
+    expect(merged.comments).toEqual([comment('c1', 'apple', { editedAt: 20 })]);
+    expect(conflicts).toEqual(['comments']);
+  });
+
+  it("applies another tab's change without losing this tab's comment edits", () => {
+    const { tasks, conflicts } = applyRemoteChanges([local], { put: [{ task: remote, base }], deleted: [] });
+    expect(tasks[0].title).toBe('Write the report');
+    expect(tasks[0].comments).toEqual([comment('c1', 'apple', { editedAt: 20 })]);
+    expect(conflicts).toEqual([]);
+  });
+});
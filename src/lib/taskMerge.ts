@@ -0,0 +1,149 @@
+import { Task } from "@/types/Task";
+import { isSameValue } from "@/lib/history";
+import type { TaskSyncMessage } from "@/lib/tabSync";
+
+// A task edited in two tabs at once where both changed the same field, or where one tab deleted it
+export interface TaskConflict {
+  task: Task;
+  fields: (keyof Task)[];
+  isDeletedElsewhere?: boolean;
+}
+
+// Lists of entries with their own ids, merged entry by entry rather than as one value.
+// Each maps to the timestamp the merged list is ordered by
+const ENTRY_LIST_FIELDS: Partial<Record<keyof Task, string>> = {
+  history: 'changedAt',
+  comments: 'createdAt',
+  timeEntries: 'startedAt'
+};
+
+// Resolved by the merge itself, never reported as conflicts
+const BOOKKEEPING_FIELDS: (keyof Task)[] = ['id', 'createdAt', 'updatedAt', 'completedAt', 'order'];
+
+// Both tabs must pick the same winner whichever of them runs the merge: the later edit wins,
+// and a tie is broken by comparing the values themselves
+const pickWinner = (a: Task, b: Task, field: keyof Task) => {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt ? a[field] : b[field];
+  return JSON.stringify(a[field] ?? null) >= JSON.stringify(b[field] ?? null) ? a[field] : b[field];
+};
+
+type Entry = { id: string; editedAt?: number };
+
+// An entry edited on both sides keeps the later edit, or failing that one deterministic version
+const pickEntry = <T extends Entry>(a: T, b: T) => {
+  if ((a.editedAt ?? 0) !== (b.editedAt ?? 0)) return (a.editedAt ?? 0) > (b.editedAt ?? 0) ? a : b;
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+};
+
+// Three-way merge of two lists by entry id: an entry added, edited or removed on one side only
+// takes that side's version. Without a base nothing can be told apart, so both sides' entries are kept
+const mergeEntries = <T extends Entry>(local: T[] = [], remote: T[] = [], base: T[] | undefined, orderBy: string) => {
+  const localById = new Map(local.map(entry => [entry.id, entry]));
+  const remoteById = new Map(remote.map(entry => [entry.id, entry]));
+  const baseById = new Map((base || []).map(entry => [entry.id, entry]));
+  const ids = new Set([...localById.keys(), ...remoteById.keys(), ...baseById.keys()]);
+  const merged: T[] = [];
+  let isConflict = false;
+
+  ids.forEach(id => {
+    const localEntry = localById.get(id);
+    const remoteEntry = remoteById.get(id);
+    const baseEntry = baseById.get(id);
+    const isChangedLocally = !base || !isSameValue(localEntry, baseEntry);
+    const isChangedRemotely = !base || !isSameValue(remoteEntry, baseEntry);
+
+    let entry: T | undefined;
+    if (!isChangedLocally) {
+      entry = remoteEntry;
+    } else if (!isChangedRemotely) {
+      entry = localEntry;
+    } else if (!localEntry || !remoteEntry) {
+      // Edited on one side and removed on the other: the edit wins, as it does for whole tasks
+      entry = localEntry || remoteEntry;
+      isConflict = isConflict || !!base;
+    } else {
+      entry = pickEntry(localEntry, remoteEntry);
+      isConflict = isConflict || (!!base && !isSameValue(localEntry, remoteEntry));
+    }
+    if (entry) merged.push(entry);
+  });
+
+  merged.sort((x, y) =>
+    Number(x[orderBy as keyof T]) - Number(y[orderBy as keyof T]) || x.id.localeCompare(y.id)
+  );
+  return { entries: merged.length > 0 ? merged : undefined, isConflict };
+};
+
+// Three-way merge of two versions that both started from base: a field changed on one side only
+// takes that side's value, a field changed on both takes the later edit's value. Comments, history
+// and time entries are merged entry by entry
+export const mergeTaskVersions = (local: Task, remote: Task, base?: Task) => {
+  const merged = {} as Record<keyof Task, unknown>;
+  const conflicts: (keyof Task)[] = [];
+  // Sorted so both tabs build the merged task with the same key order
+  const fields = [...new Set([...Object.keys(local), ...Object.keys(remote)] as (keyof Task)[])].sort();
+
+  fields.forEach(field => {
+    const orderBy = ENTRY_LIST_FIELDS[field];
+    if (orderBy) {
+      const { entries, isConflict } = mergeEntries(
+        local[field] as Entry[],
+        remote[field] as Entry[],
+        base?.[field] as Entry[] | undefined,
+        orderBy
+      );
+      merged[field] = entries;
+      if (isConflict) conflicts.push(field);
+      return;
+    }
+    if (field === 'updatedAt') {
+      merged[field] = Math.max(local.updatedAt, remote.updatedAt);
+      return;
+    }
+
+    const isChangedLocally = !base || !isSameValue(local[field], base[field]);
+    const isChangedRemotely = !base || !isSameValue(remote[field], base[field]);
+    if (isChangedRemotely && !isChangedLocally) {
+      merged[field] = remote[field];
+    } else if (isChangedLocally && !isChangedRemotely) {
+      merged[field] = local[field];
+    } else {
+      merged[field] = pickWinner(local, remote, field);
+      if (!isSameValue(local[field], remote[field]) && !BOOKKEEPING_FIELDS.includes(field)) {
+        conflicts.push(field);
+      }
+    }
+  });
+
+  return { task: merged as unknown as Task, conflicts };
+};
+
+// Folds another tab's saved changes into this tab's tasks. Tasks this tab hasn't touched since the
+// sender's base simply take the sender's version; an edit always wins over a concurrent delete
+export const applyRemoteChanges = (tasks: Task[], { put, deleted }: TaskSyncMessage) => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const conflicts: TaskConflict[] = [];
+
+  put.forEach(({ task: remote, base }) => {
+    const local = byId.get(remote.id);
+    if (!local || (base && isSameValue(local, base))) {
+      byId.set(remote.id, remote);
+    } else if (!isSameValue(local, remote)) {
+      const merge = mergeTaskVersions(local, remote, base);
+      if (!isSameValue(merge.task, local)) byId.set(remote.id, merge.task);
+      if (merge.conflicts.length > 0) conflicts.push({ task: merge.task, fields: merge.conflicts });
+    }
+  });
+
+  deleted.forEach(({ id, base }) => {
+    const local = byId.get(id);
+    if (!local) return;
+    if (!base || isSameValue(local, base)) {
+      byId.delete(id);
+    } else {
+      conflicts.push({ task: local, fields: [], isDeletedElsewhere: true });
+    }
+  });
+
+  return { tasks: [...byId.values()], conflicts };
+};
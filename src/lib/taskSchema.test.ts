@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { TASK_SCHEMA_VERSION, createTaskRecord, readTaskRecord } from "@/lib/taskSchema";
+
+// A task as the app stored it before records were versioned
+const legacyTask = {
+  id: 'task-1',
+  title: 'Write report',
+  description: 'Quarterly numbers',
+  priority: 'high',
+  isCompleted: true,
+  dueDate: Date.UTC(2024, 4, 17, 12),
+  createdAt: 1000
+};
+
+describe("readTaskRecord", () => {
+  it("migrates an unversioned task through every schema version", () => {
+    const result = readTaskRecord(legacyTask);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.isMigrated).toBe(true);
+    expect(result.task).not.toHaveProperty('isCompleted');
+    expect(result.task).toMatchObject({
+      id: 'task-1',
+      title: 'Write report',
+      status: 'done',
+      dueDate: '2024-05-17',
+      createdAt: 1000,
+      updatedAt: 1000,
+      completedAt: 1000
+    });
+  });
+
+  it("migrates an open task without making it completed", () => {
+    const result = readTaskRecord({ version: 1, task: { ...legacyTask, isCompleted: false } });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.task.status).toBe('todo');
+    expect(result.task.completedAt).toBeUndefined();
+  });
+
+  it("reads a current record as it is", () => {
+    const record = createTaskRecord({
+      id: 'task-2',
+      title: 'Send report',
+      description: '',
+      priority: 'medium',
+      status: 'in-progress',
+      createdAt: 1000,
+      updatedAt: 2000
+    });
+    expect(record.version).toBe(TASK_SCHEMA_VERSION);
+    expect(readTaskRecord(record)).toEqual({ task: record.task, isMigrated: false });
+  });
+
+  it("keeps fields it doesn't know about", () => {
+    const result = readTaskRecord({ ...legacyTask, color: 'teal' });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.task).toHaveProperty('color', 'teal');
+  });
+
+  it("reports records it can't read instead of throwing", () => {
+    expect(readTaskRecord({ version: TASK_SCHEMA_VERSION, task: { ...legacyTask, title: 5 } }))
+      .toEqual({ error: expect.stringContaining('title') });
+    expect(readTaskRecord({ version: TASK_SCHEMA_VERSION + 1, task: legacyTask }))
+      .toEqual({ error: expect.stringContaining('newer version') });
+    expect(readTaskRecord('not a task')).toEqual({ error: 'Not a task object' });
+  });
+});
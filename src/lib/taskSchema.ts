@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { Task } from "@/types/Task";
+import { migrateTaskStatus } from "@/lib/status";
+import { migrateTaskDueDate } from "@/lib/dates";
+import { migrateTaskTimestamps } from "@/lib/timestamps";
+
+// Bumped whenever the stored task shape changes; every bump needs a migration below
+export const TASK_SCHEMA_VERSION = 4;
+
+// How a task is stored: the task plus the schema version it was written with.
+// The id is repeated outside so the record can be keyed without trusting the task
+export interface TaskRecord {
+  id: string;
+  version: number;
+  task: unknown;
+}
+
+// A stored record that failed to migrate or validate, kept aside so its data isn't lost
+export interface QuarantinedTask {
+  id: string;
+  record: unknown;
+  error: string;
+  quarantinedAt: number;
+}
+
+export type TaskRecordResult =
+  | { task: Task; isMigrated: boolean }
+  | { error: string };
+
+const idSchema = z.string().min(1);
+const timestampSchema = z.number().finite();
+const dayKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const repeatRuleSchema = z.object({
+  frequency: z.enum(['daily', 'weekdays', 'weekly', 'monthly']),
+  interval: z.number().int().positive(),
+  weekDays: z.array(z.number().int().min(0).max(6)).optional(),
+  monthlyBy: z.enum(['date', 'weekday']).optional(),
+  monthDay: z.number().int().optional(),
+  end: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('never') }),
+    z.object({ type: z.literal('count'), count: z.number().int().positive() }),
+    z.object({ type: z.literal('date'), date: timestampSchema })
+  ]),
+  occurrence: z.number().int()
+});
+
+// Unknown keys pass through, so fields added by a newer build survive a round trip through this one
+export const taskSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  description: z.string().default(''),
+  priority: idSchema,
+  status: idSchema,
+  dueDate: dayKeySchema.optional(),
+  dueTime: z.string().regex(/^\d{2}:\d{2}$/, 'Expected an HH:MM time').optional(),
+  startDate: dayKeySchema.optional(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  completedAt: timestampSchema.optional(),
+  order: z.number().finite().optional(),
+  checklist: z.array(z.object({ id: idSchema, text: z.string(), isCompleted: z.boolean() })).optional(),
+  tagIds: z.array(idSchema).optional(),
+  projectId: idSchema.optional(),
+  repeat: repeatRuleSchema.optional(),
+  blockedBy: z.array(idSchema).optional(),
+  estimateMinutes: z.number().nonnegative().optional(),
+  timeEntries: z.array(z.object({ id: idSchema, startedAt: timestampSchema, endedAt: timestampSchema })).optional(),
+  comments: z.array(z.object({
+    id: idSchema,
+    authorId: idSchema,
+    text: z.string(),
+    createdAt: timestampSchema,
+    editedAt: timestampSchema.optional()
+  })).optional(),
+  history: z.array(z.object({
+    id: idSchema,
+    field: z.string(),
+    from: z.unknown(),
+    to: z.unknown(),
+    changedAt: timestampSchema,
+    authorId: z.string()
+  })).optional(),
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional(),
+  attachments: z.array(z.object({
+    id: idSchema,
+    name: z.string(),
+    type: z.string(),
+    size: z.number().nonnegative(),
+    addedAt: timestampSchema
+  })).optional(),
+  assigneeIds: z.array(idSchema).optional(),
+  archivedAt: timestampSchema.optional(),
+  deletedAt: timestampSchema.optional()
+}).passthrough();
+
+// Migrations keyed by the version they upgrade from; each one lifts a task to the next version.
+// Version 1 is the unversioned shape written before the envelope existed
+const MIGRATIONS: Record<number, (task: Task) => Task> = {
+  1: migrateTaskStatus,
+  2: migrateTaskDueDate,
+  3: migrateTaskTimestamps
+};
+
+const isTaskRecord = (value: unknown): value is TaskRecord =>
+  typeof value === 'object' && value !== null && typeof (value as TaskRecord).version === 'number' && 'task' in value;
+
+export const createTaskRecord = (task: Task): TaskRecord => ({ id: task.id, version: TASK_SCHEMA_VERSION, task });
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || 'task'}: ${issue.message}`)
+    .join('; ');
+
+// Migrates a stored value to the current version and validates it; never throws
+export const readTaskRecord = (value: unknown): TaskRecordResult => {
+  const { version, task } = isTaskRecord(value) ? value : { version: 1, task: value };
+  if (version > TASK_SCHEMA_VERSION) {
+    return { error: `Saved by a newer version of the app (schema v${version})` };
+  }
+  if (typeof task !== 'object' || task === null || Array.isArray(task)) {
+    return { error: 'Not a task object' };
+  }
+
+  let migrated = task as Task;
+  try {
+    for (let from = Math.max(version, 1); from < TASK_SCHEMA_VERSION; from++) {
+      migrated = MIGRATIONS[from](migrated);
+    }
+  } catch (error) {
+    return { error: `Couldn't migrate from schema v${version}: ${(error as Error).message}` };
+  }
+
+  const result = taskSchema.safeParse(migrated);
+  if (!result.success) return { error: describeIssues(result.error) };
+  return { task: result.data as Task, isMigrated: version < TASK_SCHEMA_VERSION };
+};
+
+export const createQuarantinedTask = (id: string, record: unknown, error: string): QuarantinedTask => ({
+  id,
+  record,
+  error,
+  quarantinedAt: Date.now()
+});
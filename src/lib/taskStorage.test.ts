@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TaskChanges, TaskStorageAdapter, loadStoredTasks, readQuarantine } from "@/lib/taskStorage";
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+};
+
+const createAdapter = (values: Record<string, unknown>) => {
+  const saved: TaskChanges[] = [];
+  const adapter: TaskStorageAdapter = {
+    name: 'indexedDB',
+    loadRecords: async () => Object.entries(values).map(([id, value]) => ({ id, value })),
+    saveChanges: async changes => {
+      saved.push(changes);
+    },
+    loadSyncQueue: async () => [],
+    updateSyncQueue: async update => update([])
+  };
+  return { adapter, saved };
+};
+
+const legacyTask = { id: 'task-1', title: 'Write report', priority: 'high', isCompleted: false, createdAt: 1000 };
+const corruptRecord = { version: 4, task: { id: 'task-2', title: 'Send report', createdAt: 'yesterday' } };
+
+describe("loadStoredTasks", () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("writes migrated records back and moves unreadable ones to the quarantine", async () => {
+    const { adapter, saved } = createAdapter({ 'task-1': legacyTask, 'task-2': corruptRecord });
+
+    const { tasks, quarantined } = await loadStoredTasks(adapter);
+
+    expect(tasks.map(task => task.id)).toEqual(['task-1']);
+    expect(quarantined).toEqual([expect.objectContaining({ id: 'task-2', record: corruptRecord })]);
+    expect(readQuarantine()).toEqual(quarantined);
+    expect(saved).toEqual([{ put: tasks, deleted: ['task-2'] }]);
+  });
+
+  it("leaves an unreadable record in storage when the quarantine can't be written", async () => {
+    vi.stubGlobal('localStorage', {
+      ...createMemoryStorage(),
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    });
+    const { adapter, saved } = createAdapter({ 'task-2': corruptRecord });
+
+    const { tasks, quarantined } = await loadStoredTasks(adapter);
+
+    expect(tasks).toEqual([]);
+    expect(quarantined).toEqual([expect.objectContaining({ id: 'task-2', record: corruptRecord })]);
+    expect(saved).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { Task } from "@/types/Task";
+import { SyncOperation } from "@/types/Sync";
+import { createLocalStorageAdapter } from "@/lib/localStorageAdapter";
+import { createIndexedDbAdapter } from "@/lib/indexedDbAdapter";
+import { QuarantinedTask, TASK_SCHEMA_VERSION, createQuarantinedTask, readTaskRecord } from "@/lib/taskSchema";
+
+// Tasks written and removed since the last save; adapters only touch these records
+export interface TaskChanges {
+  put: Task[];
+  deleted: string[];
+}
+
+// A record as it sits in storage: only the key is trusted, the value is checked by readTaskRecord
+export interface StoredRecord {
+  id: string;
+  value: unknown;
+}
+
+export interface TaskStorageAdapter {
+  name: 'indexedDB' | 'localStorage';
+  loadRecords: () => Promise<StoredRecord[]>;
+  // Tasks are written inside a versioned TaskRecord
+  saveChanges: (changes: TaskChanges) => Promise<void>;
+  // Local changes waiting for the sync server, oldest first and at most one per task
+  loadSyncQueue: () => Promise<SyncOperation[]>;
+  // Reads, changes and writes the queue in one step, so two updates can't overwrite each other
+  updateSyncQueue: (update: (queue: SyncOperation[]) => SyncOperation[]) => Promise<SyncOperation[]>;
+}
+
+export interface LoadedTasks {
+  tasks: Task[];
+  quarantined: QuarantinedTask[];
+}
+
+// Before the adapters every task lived in one JSON array under this key
+const LEGACY_TASKS_KEY = 'tasks';
+const QUARANTINE_KEY = 'quarantinedTasks';
+
+// Task objects are replaced rather than mutated, so a new reference means a changed task
+export const diffTasks = (previous: Task[], next: Task[]): TaskChanges => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  const nextIds = new Set(next.map(task => task.id));
+  return {
+    put: next.filter(task => previousById.get(task.id) !== task),
+    deleted: previous.filter(task => !nextIds.has(task.id)).map(task => task.id)
+  };
+};
+
+// The reverse of diffTasks: what the list looks like once the changes are written
+export const applyTaskChanges = (tasks: Task[], { put, deleted }: TaskChanges) => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  put.forEach(task => byId.set(task.id, task));
+  deleted.forEach(id => byId.delete(id));
+  return [...byId.values()];
+};
+
+export const hasTaskChanges = (changes: TaskChanges) => changes.put.length > 0 || changes.deleted.length > 0;
+
+export const readQuarantine = (): QuarantinedTask[] => {
+  try {
+    const quarantined = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]');
+    return Array.isArray(quarantined) ? quarantined : [];
+  } catch {
+    return [];
+  }
+};
+
+// Returns false when the quarantine couldn't be written, in which case the records stay where they are
+const addToQuarantine = (quarantined: QuarantinedTask[]) => {
+  if (quarantined.length === 0) return true;
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...readQuarantine(), ...quarantined]));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const clearQuarantine = () => localStorage.removeItem(QUARANTINE_KEY);
+
+// Everything needed to inspect or repair the quarantined records by hand
+export const createQuarantineFile = (quarantined: QuarantinedTask[]) =>
+  new Blob(
+    [JSON.stringify({ schemaVersion: TASK_SCHEMA_VERSION, exportedAt: new Date().toISOString(), quarantined }, null, 2)],
+    { type: 'application/json' }
+  );
+
+// Moves tasks saved by older versions into the adapter; the old key is only removed once they're written
+const migrateLegacyTasks = async (adapter: TaskStorageAdapter) => {
+  const legacyTasks = localStorage.getItem(LEGACY_TASKS_KEY);
+  if (legacyTasks === null) return;
+
+  let values: unknown[];
+  try {
+    values = JSON.parse(legacyTasks);
+  } catch {
+    values = null;
+  }
+  if (!Array.isArray(values)) {
+    if (addToQuarantine([createQuarantinedTask(LEGACY_TASKS_KEY, legacyTasks, 'Saved task list is not a JSON array')])) {
+      localStorage.removeItem(LEGACY_TASKS_KEY);
+    }
+    return;
+  }
+
+  const existingIds = new Set((await adapter.loadRecords()).map(record => record.id));
+  const tasks: Task[] = [];
+  const quarantined: QuarantinedTask[] = [];
+  values.forEach((value, index) => {
+    const result = readTaskRecord(value);
+    if ('error' in result) {
+      const id = (value as Task)?.id;
+      quarantined.push(createQuarantinedTask(typeof id === 'string' ? id : `legacy-${index}`, value, result.error));
+    } else if (!existingIds.has(result.task.id)) {
+      tasks.push(result.task);
+    }
+  });
+  await adapter.saveChanges({ put: tasks, deleted: [] });
+  if (addToQuarantine(quarantined)) localStorage.removeItem(LEGACY_TASKS_KEY);
+};
+
+// Migrates and validates every record. Records that fail are moved to the quarantine so one bad
+// entry can't take the rest of the list down with it
+export const loadStoredTasks = async (adapter: TaskStorageAdapter): Promise<LoadedTasks> => {
+  const tasks: Task[] = [];
+  const migrated: Task[] = [];
+  const quarantined: QuarantinedTask[] = [];
+
+  (await adapter.loadRecords()).forEach(({ id, value }) => {
+    const result = readTaskRecord(value);
+    if ('error' in result) {
+      quarantined.push(createQuarantinedTask(id, value, result.error));
+      return;
+    }
+    tasks.push(result.task);
+    if (result.isMigrated) migrated.push(result.task);
+  });
+
+  const isQuarantined = addToQuarantine(quarantined);
+  const changes = { put: migrated, deleted: isQuarantined ? quarantined.map(task => task.id) : [] };
+  if (hasTaskChanges(changes)) {
+    try {
+      await adapter.saveChanges(changes);
+    } catch {
+      // Nothing is lost: the old records are migrated again on the next load
+    }
+  }
+
+  return {
+    // Records come back in key order; creation order is what the lists expect
+    tasks: tasks.sort((a, b) => a.createdAt - b.createdAt),
+    quarantined: isQuarantined ? readQuarantine() : [...readQuarantine(), ...quarantined]
+  };
+};
+
+let storagePromise: Promise<TaskStorageAdapter> | null = null;
+
+// IndexedDB when the browser allows it (it doesn't in some private modes), localStorage otherwise
+export const openTaskStorage = () => {
+  if (!storagePromise) {
+    storagePromise = (async () => {
+      let adapter: TaskStorageAdapter;
+      try {
+        adapter = await createIndexedDbAdapter();
+      } catch {
+        adapter = createLocalStorageAdapter();
+      }
+      await migrateLegacyTasks(adapter);
+      return adapter;
+    })();
+    storagePromise.catch(() => {
+      storagePromise = null;
+    });
+  }
+  return storagePromise;
+};
@@ -0,0 +1,43 @@
+import { ActiveTimer, EstimateUnit, Task, TimeEntry } from "@/types/Task";
+import { createId } from "@/lib/utils";
+
+const MINUTE = 60 * 1000;
+
+export const createTimeEntry = (startedAt: number, endedAt: number = Date.now()): TimeEntry => ({
+  id: createId('time'),
+  startedAt,
+  endedAt
+});
+
+// Logged time plus the running stretch when this task is the one being tracked
+export const getTrackedMs = (task: Task, activeTimer: ActiveTimer | null = null, now: number = Date.now()) => {
+  const logged = (task.timeEntries || []).reduce((total, entry) => total + entry.endedAt - entry.startedAt, 0);
+  return activeTimer?.taskId === task.id ? logged + Math.max(0, now - activeTimer.startedAt) : logged;
+};
+
+// e.g. "45m", "2h", "1h 30m"; running timers under a minute show seconds
+export const formatDuration = (ms: number, showSeconds = false) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  if (showSeconds && minutes === 0) return `${totalSeconds % 60}s`;
+  return `${minutes}m`;
+};
+
+export const estimateToMs = (estimateMinutes: number) => estimateMinutes * MINUTE;
+
+// Whole hours are edited in hours, anything else in minutes
+export const splitEstimate = (estimateMinutes?: number): { estimate: string; estimateUnit: EstimateUnit } => {
+  if (!estimateMinutes) return { estimate: '', estimateUnit: 'minutes' };
+  return estimateMinutes % 60 === 0
+    ? { estimate: String(estimateMinutes / 60), estimateUnit: 'hours' }
+    : { estimate: String(estimateMinutes), estimateUnit: 'minutes' };
+};
+
+export const parseEstimate = (estimate: string, unit: EstimateUnit) => {
+  const value = Number(estimate);
+  if (!estimate.trim() || !Number.isFinite(value) || value <= 0) return undefined;
+  return Math.round(unit === 'hours' ? value * 60 : value);
+};
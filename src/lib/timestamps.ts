@@ -0,0 +1,60 @@
+import { Task } from "@/types/Task";
+import { DONE_STATUS, isTaskDone } from "@/lib/status";
+import { isSameValue } from "@/lib/history";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// The timestamps themselves, the change log and list position don't count as edits
+const IGNORED_FIELDS: (keyof Task)[] = ['updatedAt', 'completedAt', 'history', 'order'];
+
+const hasContentChanged = (previous: Task, next: Task) => {
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof Task)[]);
+  return [...fields].some(field =>
+    !IGNORED_FIELDS.includes(field) && !isSameValue(previous[field], next[field])
+  );
+};
+
+// Bumps updatedAt on every edited task and sets completedAt on completion, clearing it on reopen
+export const stampTaskTimestamps = (prevTasks: Task[], nextTasks: Task[], now: number = Date.now()) => {
+  const prevById = new Map(prevTasks.map(task => [task.id, task]));
+
+  return nextTasks.map(task => {
+    const previous = prevById.get(task.id);
+    if (previous === task) return task;
+
+    if (!previous) {
+      return {
+        ...task,
+        updatedAt: task.updatedAt || task.createdAt,
+        completedAt: isTaskDone(task) ? task.completedAt || now : undefined
+      };
+    }
+
+    const completedAt = !isTaskDone(task)
+      ? undefined
+      : isTaskDone(previous) ? previous.completedAt || now : now;
+    if (!hasContentChanged(previous, task) && completedAt === task.completedAt) return task;
+
+    return { ...task, updatedAt: now, completedAt };
+  });
+};
+
+// Tasks saved before the timestamps existed get the best estimate their activity allows:
+// the latest edit, comment or tracked stretch, and the last time they were marked done
+export const migrateTaskTimestamps = (task: Task): Task => {
+  const updatedAt = task.updatedAt || Math.max(
+    task.createdAt,
+    ...(task.history || []).map(change => change.changedAt),
+    ...(task.comments || []).map(comment => comment.editedAt || comment.createdAt),
+    ...(task.timeEntries || []).map(entry => entry.endedAt)
+  );
+  if (!isTaskDone(task)) return { ...task, updatedAt, completedAt: undefined };
+
+  const completion = (task.history || [])
+    .filter(change => change.field === 'status' && change.to === DONE_STATUS)
+    .pop();
+  return { ...task, updatedAt, completedAt: task.completedAt || completion?.changedAt || updatedAt };
+};
+
+export const isCompletedWithinDays = (task: Task, days: number, now: number = Date.now()) =>
+  !!task.completedAt && now - task.completedAt < days * DAY;
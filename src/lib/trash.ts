@@ -0,0 +1,24 @@
+import { Task } from "@/types/Task";
+import { removeDependencyLinks } from "@/lib/dependencies";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+export const isTaskTrashed = (task: Task) => !!task.deletedAt;
+
+export const isTaskArchived = (task: Task) => !!task.archivedAt && !task.deletedAt;
+
+// Permanently removes the given tasks along with the dependency links pointing at them
+export const deleteTasksPermanently = (tasks: Task[], ids: string[]) =>
+  ids.reduce(
+    (remaining, id) => removeDependencyLinks(remaining, id),
+    tasks.filter(task => !ids.includes(task.id))
+  );
+
+export const getExpiredTrashIds = (tasks: Task[], retentionDays: number, now: number = Date.now()) =>
+  tasks
+    .filter(task => task.deletedAt && now - task.deletedAt >= retentionDays * DAY)
+    .map(task => task.id);
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types/Task";
+import { DEFAULT_PRIORITIES } from "@/lib/priorities";
+import { getWorkflowStatuses } from "@/lib/status";
+import { TaskReferences, getTaskRevisions, reapplyRevisions, revertRevisions } from "@/lib/undo";
+
+const task = (extra: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Write report',
+  description: '',
+  priority: 'medium',
+  status: 'todo',
+  createdAt: 1,
+  updatedAt: 10,
+  ...extra
+});
+
+const references = (extra: Partial<TaskReferences> = {}): TaskReferences => ({
+  tags: [{ id: 'tag-a', name: 'A', color: '#000000' }, { id: 'tag-b', name: 'B', color: '#000000' }],
+  projects: [],
+  statuses: getWorkflowStatuses([]),
+  priorities: DEFAULT_PRIORITIES,
+  customFields: [],
+  people: [],
+  ...extra
+});
+
+describe("revertRevisions", () => {
+  it("only restores the fields the entry changed", () => {
+    const before = task({ tagIds: ['tag-a'] });
+    const after = { ...before, title: 'Write the report' };
+    const revisions = getTaskRevisions([before], [after]);
+    // Deleting tag A afterwards cleaned it out of the task without an undo entry
+    const current = { ...after, tagIds: [] };
+
+    const [undone] = revertRevisions([current], revisions, { keepLaterChanges: true, references: references() });
+    expect(undone.title).toBe('Write report');
+    expect(undone.tagIds).toEqual([]);
+  });
+
+  it("leaves a field changed again since alone", () => {
+    const before = task({ status: 'todo' });
+    const after = { ...before, status: 'in-progress' };
+    const revisions = getTaskRevisions([before], [after]);
+    const current = { ...after, status: 'blocked' };
+
+    expect(revertRevisions([current], revisions, { keepLaterChanges: true })[0].status).toBe('blocked');
+    expect(revertRevisions([current], revisions)[0].status).toBe('todo');
+  });
+
+  it("drops references to definitions deleted since from the restored fields", () => {
+    const before = task({ tagIds: ['tag-a', 'tag-b'], projectId: 'project-gone' });
+    const after = { ...before, tagIds: [], projectId: undefined };
+    const revisions = getTaskRevisions([before], [after]);
+
+    const [undone] = revertRevisions([after], revisions, {
+      keepLaterChanges: true,
+      references: references({ tags: [{ id: 'tag-b', name: 'B', color: '#000000' }] })
+    });
+    expect(undone.tagIds).toEqual(['tag-b']);
+    expect(undone.projectId).toBeUndefined();
+  });
+
+  it("brings back a deleted task and takes an added one away again", () => {
+    const kept = task();
+    const added = task({ id: 't2', title: 'Send report' });
+    const revisions = getTaskRevisions([kept], [added]);
+
+    const undone = revertRevisions([added], revisions);
+    expect(undone).toEqual([kept]);
+    expect(reapplyRevisions(undone, revisions)).toEqual([added]);
+  });
+});
@@ -0,0 +1,129 @@
+import { Task } from "@/types/Task";
+import { diffTasks } from "@/lib/taskStorage";
+import { DEFAULT_STATUS, isTaskDone } from "@/lib/status";
+import { HistoryContext, isSameValue } from "@/lib/history";
+import { getDefaultPriority } from "@/lib/priorities";
+import { cleanCustomFieldValues } from "@/lib/customFields";
+
+// One task before and after an action; a missing side means the task was added or deleted
+export interface TaskRevision {
+  id: string;
+  before?: Task;
+  after?: Task;
+}
+
+// An undoable action. Only the tasks it touched are stored, so undoing it leaves
+// changes made to other tasks since (or in other tabs) alone
+export interface UndoEntry {
+  id: string;
+  label: string;
+  revisions: TaskRevision[];
+}
+
+// Older entries are dropped beyond this
+export const MAX_UNDO_ENTRIES = 50;
+
+export const getTaskRevisions = (prevTasks: Task[], nextTasks: Task[]): TaskRevision[] => {
+  const prevById = new Map(prevTasks.map(task => [task.id, task]));
+  const { put, deleted } = diffTasks(prevTasks, nextTasks);
+  return [
+    ...put.map(task => ({ id: task.id, before: prevById.get(task.id), after: task })),
+    ...deleted.map(id => ({ id, before: prevById.get(id) }))
+  ];
+};
+
+// Several updates made by one action become one entry: the first before and the last after of each task
+export const combineRevisions = (first: TaskRevision[], second: TaskRevision[]) => {
+  const byId = new Map(first.map(revision => [revision.id, revision]));
+  second.forEach(revision => {
+    const earlier = byId.get(revision.id);
+    byId.set(revision.id, earlier ? { ...revision, before: earlier.before } : revision);
+  });
+  return [...byId.values()].filter(revision => revision.before !== revision.after);
+};
+
+// The definitions a task can point to; undo and redo drop references to ones deleted since
+export type TaskReferences = Omit<HistoryContext, 'tasks'>;
+
+interface RestoreOptions {
+  // Leaves fields that were changed again since the revision alone instead of writing over them
+  keepLaterChanges?: boolean;
+  references?: TaskReferences;
+}
+
+// Deleting a tag, project or other definition cleans it out of tasks without an undo entry, so an
+// older version brought back by undo or redo can still point to it
+export const removeDeletedReferences = (
+  task: Task,
+  { tags, projects, statuses, priorities, customFields, people }: TaskReferences
+): Task => {
+  const customFieldValues = cleanCustomFieldValues(task.customFields, customFields);
+  const cleaned: Task = {
+    ...task,
+    status: statuses.some(status => status.id === task.status) ? task.status : DEFAULT_STATUS,
+    priority: priorities.some(level => level.id === task.priority) ? task.priority : getDefaultPriority(priorities).id,
+    tagIds: task.tagIds?.filter(tagId => tags.some(tag => tag.id === tagId)),
+    projectId: projects.some(project => project.id === task.projectId) ? task.projectId : undefined,
+    assigneeIds: task.assigneeIds?.filter(personId => people.some(person => person.id === personId)),
+    customFields: Object.keys(customFieldValues).length > 0 ? customFieldValues : undefined
+  };
+  const isChanged = (Object.keys(cleaned) as (keyof Task)[]).some(field => !isSameValue(cleaned[field], task[field]));
+  return isChanged ? cleaned : task;
+};
+
+// Writes one side of each revision over the tasks. A task that is still there only gets the fields
+// the revision changed, so changes to its other fields made since are kept
+const restoreSide = (tasks: Task[], revisions: TaskRevision[], side: 'before' | 'after', options: RestoreOptions) => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const clean = (task: Task) => options.references ? removeDeletedReferences(task, options.references) : task;
+  revisions.forEach(revision => {
+    const target = revision[side];
+    const source = side === 'before' ? revision.after : revision.before;
+    const current = byId.get(revision.id);
+    if (!target) {
+      byId.delete(revision.id);
+      return;
+    }
+    if (!current || !source) {
+      byId.set(revision.id, clean(target));
+      return;
+    }
+    const fields = [...new Set([...Object.keys(source), ...Object.keys(target)] as (keyof Task)[])].filter(field =>
+      !isSameValue(source[field], target[field])
+      && (!options.keepLaterChanges || isSameValue(current[field], source[field]))
+    );
+    if (fields.length === 0) return;
+    byId.set(revision.id, clean({ ...current, ...Object.fromEntries(fields.map(field => [field, target[field]])) }));
+  });
+  return [...byId.values()];
+};
+
+export const revertRevisions = (tasks: Task[], revisions: TaskRevision[], options: RestoreOptions = {}) =>
+  restoreSide(tasks, revisions, 'before', options);
+
+export const reapplyRevisions = (tasks: Task[], revisions: TaskRevision[], options: RestoreOptions = {}) =>
+  restoreSide(tasks, revisions, 'after', options);
+
+const describeRevision = ({ before, after }: TaskRevision) => {
+  if (!before) return `Added "${after.title}"`;
+  if (!after) return `Deleted "${before.title}" forever`;
+  if (!before.deletedAt && after.deletedAt) return `Moved "${after.title}" to the Trash`;
+  if (before.deletedAt && !after.deletedAt) return `Restored "${after.title}"`;
+  if (!before.archivedAt && after.archivedAt) return `Archived "${after.title}"`;
+  if (before.archivedAt && !after.archivedAt && isTaskDone(after)) return `Unarchived "${after.title}"`;
+  if (!isTaskDone(before) && isTaskDone(after)) return `Completed "${after.title}"`;
+  if (isTaskDone(before) && !isTaskDone(after)) return `Reopened "${after.title}"`;
+  if (before.order !== after.order && before.updatedAt === after.updatedAt) return `Moved "${after.title}"`;
+  if ((after.timeEntries?.length || 0) > (before.timeEntries?.length || 0)) return `Logged time on "${after.title}"`;
+  return `Edited "${after.title}"`;
+};
+
+// Actions that touch a single task describe themselves; completing a recurring task also adds
+// its next occurrence, which isn't worth mentioning
+export const describeRevisions = (revisions: TaskRevision[]) => {
+  const changed = revisions.filter(revision => revision.before);
+  if (revisions.length === 1) return describeRevision(revisions[0]);
+  if (changed.length === 1) return describeRevision(changed[0]);
+  if (changed.length === 0) return `Added ${revisions.length} tasks`;
+  return `Changed ${revisions.length} tasks`;
+};
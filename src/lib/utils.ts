@@ -1,6 +1,25 @@
+import { type CSSProperties } from "react"
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function createId(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Tinted chip colors derived from a single hex color
+export function getColorChipStyle(color: string): CSSProperties {
+  return {
+    backgroundColor: `${color}26`,
+    borderColor: `${color}66`,
+    color,
+  }
+}
+
+// Keyboard shortcuts leave typing alone
+export function isEditableTarget(target: EventTarget | null) {
+  return target instanceof Element && !!target.closest('input, textarea, select, [contenteditable="true"]')
+}
@@ -1,41 +1,182 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, SetStateAction } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Clock, CheckCircle2, Plus, FileText, AlertTriangle, Search, X } from "lucide-react";
+import { Clock, CheckCircle2, Plus, FileText, AlertTriangle, Search, X, CalendarClock, Archive, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useTimer } from "@/hooks/useTimer";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStoredTasks } from "@/hooks/useStoredTasks";
+import { useServerSync } from "@/hooks/useServerSync";
+import { useTaskUndo } from "@/hooks/useTaskUndo";
+import { useNow } from "@/hooks/useNow";
+import { usePriorityTokens } from "@/hooks/usePriorityTokens";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { TaskCard } from "@/components/TaskCard";
 import { TaskForm } from "@/components/TaskForm";
-import { Task } from "@/types/Task";
+import { TagFilter } from "@/components/TagFilter";
+import { TagManager } from "@/components/TagManager";
+import { ProjectSidebar } from "@/components/ProjectSidebar";
+import { TaskRecovery } from "@/components/TaskRecovery";
+import { StatusManager } from "@/components/StatusManager";
+import { PriorityManager } from "@/components/PriorityManager";
+import { CustomFieldManager } from "@/components/CustomFieldManager";
+import { SyncSettings } from "@/components/SyncSettings";
+import { TaskSortMenu } from "@/components/TaskSortMenu";
+import { ReorderableTaskList } from "@/components/ReorderableTaskList";
+import { PeopleManager } from "@/components/PeopleManager";
+import { AssigneeFilter } from "@/components/AssigneeFilter";
+import { BlockedCompletionDialog } from "@/components/BlockedCompletionDialog";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { toast } from "@/components/ui/sonner";
+import { ActiveTimer, Task, TaskChange, TaskComment, TaskStatus } from "@/types/Task";
+import { Tag } from "@/types/Tag";
+import { Project } from "@/types/Project";
+import { StatusDefinition } from "@/types/Status";
+import { PriorityLevel } from "@/types/Priority";
+import { CustomFieldDefinition, CustomFieldType } from "@/types/CustomField";
+import { Person } from "@/types/Person";
+import { isChecklistComplete, toggleChecklistItem } from "@/lib/checklist";
+import { createTag } from "@/lib/tags";
+import { getColorChipStyle, isEditableTarget } from "@/lib/utils";
+import { createNextOccurrence, getNextOccurrenceDate } from "@/lib/recurrence";
+import {
+  DEFAULT_STATUS,
+  DONE_STATUS,
+  createStatus,
+  getWorkflowStatuses,
+  isTaskDone
+} from "@/lib/status";
+import { getOpenBlockers, removeDependencyLinks, wouldCreateCycle } from "@/lib/dependencies";
+import { getTodayKey, isTaskOverdue, isTaskScheduled } from "@/lib/dates";
+import { createTimeEntry, estimateToMs, formatDuration, getTrackedMs } from "@/lib/timeTracking";
+import { commentsMatchQuery, getAuthorId } from "@/lib/comments";
+import { getBacklinkMap } from "@/lib/mentions";
+import { toggleTaskListItem } from "@/lib/markdown";
+import { HISTORY_FIELD_LABELS, formatHistoryValue, recordTaskHistory } from "@/lib/history";
+import { isCompletedWithinDays, stampTaskTimestamps } from "@/lib/timestamps";
+import { cleanCustomFieldValues, createCustomField, customFieldsMatchQuery } from "@/lib/customFields";
+import { DEFAULT_SORT, TaskSort, getCustomFieldSortKey, sortTasks } from "@/lib/sort";
+import { getOrderForPosition } from "@/lib/ordering";
+import {
+  DEFAULT_PRIORITIES,
+  createPriorityLevel,
+  getNextPriorityColor,
+  getPriorityLevel,
+  getReplacementPriority,
+  mapTaskPriorities,
+  movePriorityLevel
+} from "@/lib/priorities";
+import { getReferencedAttachmentIds, removeUnreferencedAttachments } from "@/lib/attachments";
+import { getTaskRevisions, reapplyRevisions } from "@/lib/undo";
+import { AssignmentFilter, createPerson, getNextPersonColor, matchesAssignmentFilter } from "@/lib/people";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_OPTIONS,
+  deleteTasksPermanently,
+  getExpiredTrashIds,
+  isTaskArchived,
+  isTaskTrashed
+} from "@/lib/trash";
+import { ARCHIVE_PATH, INBOX_PATH, TRASH_PATH, countOpenTasks, createProject, getProjectPath } from "@/lib/projects";
+import NotFound from "./NotFound";
 
 const Index = () => {
-  const [tasks, setTasks] = useState<Task[]>(() => {
-    const savedTasks = localStorage.getItem("tasks");
-    return savedTasks ? JSON.parse(savedTasks) : [];
-  });
+  const { projectId } = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { tasks, setTasks: setStoredTasks, isLoaded, loadError, quarantine, applyServerChanges } = useStoredTasks();
+  const isLoading = !isLoaded;
+  const [isRecoveryDismissed, setIsRecoveryDismissed] = useState(false);
+  const isRecovering = !isLoading && quarantine.tasks.length > 0 && !isRecoveryDismissed;
+  const sync = useServerSync(tasks, isLoaded, applyServerChanges);
+  // Tasks as of the latest update, including updates made earlier in the same event that
+  // haven't rendered yet
+  const latestTasksRef = useRef(tasks);
+  useEffect(() => {
+    latestTasksRef.current = tasks;
+  }, [tasks]);
+  // Every task update goes through here so each changed field lands in that task's history,
+  // the updated/completed timestamps stay current and the change can be undone. Cleanups after
+  // deleting a tag, project or other definition aren't undoable, since the definition stays gone
+  const setTasks = (
+    update: SetStateAction<Task[]>,
+    { label, isUndoable = true }: { label?: string; isUndoable?: boolean } = {}
+  ) => {
+    const prevTasks = latestTasksRef.current;
+    const nextTasks = stampTaskTimestamps(
+      prevTasks,
+      recordTaskHistory(
+        prevTasks,
+        typeof update === 'function' ? update(prevTasks) : update,
+        getAuthorId(currentPersonId)
+      )
+    );
+    if (isUndoable) recordChange(prevTasks, nextTasks, label);
+    latestTasksRef.current = nextTasks;
+    // If the list changed underneath in the meantime (another tab, the sync server), only the
+    // tasks this update touched are written over it
+    const revisions = getTaskRevisions(prevTasks, nextTasks);
+    setStoredTasks(currentTasks =>
+      currentTasks === prevTasks ? nextTasks : reapplyRevisions(currentTasks, revisions)
+    );
+  };
   const [showForm, setShowForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [testStarted, setTestStarted] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [tags, setTags] = useLocalStorage<Tag[]>("tags", []);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [projects, setProjects] = useLocalStorage<Project[]>("projects", []);
+  const [customStatuses, setCustomStatuses] = useLocalStorage<StatusDefinition[]>("statuses", []);
+  const [priorities, setPriorities] = useLocalStorage<PriorityLevel[]>("priorities", DEFAULT_PRIORITIES);
+  const [customFields, setCustomFields] = useLocalStorage<CustomFieldDefinition[]>("customFields", []);
+  const [sort, setSort] = useLocalStorage<TaskSort>("taskSort", DEFAULT_SORT);
+  const [people, setPeople] = useLocalStorage<Person[]>("people", []);
+  // Who is using this (shared) browser, for the "Assigned to me" filter
+  const [currentPersonId, setCurrentPersonId] = useLocalStorage<string | null>("currentPersonId", null);
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>('all');
+  const [trashRetentionDays, setTrashRetentionDays] = useLocalStorage("trashRetentionDays", DEFAULT_TRASH_RETENTION_DAYS);
+  const [pendingCompletionId, setPendingCompletionId] = useState<string | null>(null);
+  // Persisted separately so a running tracker survives a reload
+  const [activeTimer, setActiveTimer] = useLocalStorage<ActiveTimer | null>("activeTimer", null);
+
+  const statuses = getWorkflowStatuses(customStatuses);
+  const { recordChange, undo, redo, getRetainedTasks } = useTaskUndo(
+    setStoredTasks,
+    { tags, projects, statuses, priorities, customFields, people }
+  );
+  usePriorityTokens(priorities);
+  const isInbox = location.pathname === INBOX_PATH;
+  const isArchive = location.pathname === ARCHIVE_PATH;
+  const isTrash = location.pathname === TRASH_PATH;
+  const activeProject = projectId ? projects.find(project => project.id === projectId) : undefined;
 
   const { timeRemaining, isTimeUp, formatTime, startTimer, resetTimer } = useTimer(3600); // 60 minutes
 
-  // Initial loading simulation
+  // Drop stored files nothing points to any more (removed attachments, deleted tasks, abandoned
+  // drafts); skipped while the form is open so files dropped into it aren't lost. Files of tasks
+  // that undo or redo could bring back are kept until their entry leaves the stack. Never after a
+  // failed load, when the empty list would make every stored file look unreferenced
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setIsLoading(false);
-    }, 800);
-    return () => clearTimeout(timer);
-  }, []);
+    if (isLoading || loadError || showForm) return;
+    const referencedIds = getReferencedAttachmentIds([...tasks, ...getRetainedTasks()], quarantine.tasks);
+    removeUnreferencedAttachments(referencedIds).catch(() => {
+      // IndexedDB can be unavailable (e.g. private mode); there is nothing to clean up then
+    });
+  }, [tasks, isLoading, loadError, showForm, getRetainedTasks, quarantine.tasks]);
 
-  // Save tasks to localStorage whenever tasks change
+  // Trashed tasks past the retention period are deleted for good
   useEffect(() => {
-    if (!isLoading) {
-      localStorage.setItem("tasks", JSON.stringify(tasks));
+    if (isLoading) return;
+    const expiredIds = getExpiredTrashIds(tasks, trashRetentionDays);
+    if (expiredIds.length > 0) {
+      setStoredTasks(prevTasks => deleteTasksPermanently(prevTasks, expiredIds));
     }
-  }, [tasks, isLoading]);
+  }, [tasks, isLoading, trashRetentionDays, setStoredTasks]);
 
   const handleStartTest = () => {
     setTestStarted(true);
@@ -45,20 +186,30 @@ const Index = () => {
   const handleResetTest = () => {
     setTestStarted(false);
     resetTimer();
-    setTasks([]);
+    setTasks([], { label: 'Reset the test' });
+    setActiveTimer(null);
     setShowForm(false);
     setEditingTask(null);
   };
 
-  const handleAddTask = (task: Task) => {
-    if (editingTask) {
-      // Update existing task
-      setTasks(prevTasks => prevTasks.map(t => t.id === task.id ? task : t));
-      setEditingTask(null);
-    } else {
-      // Add new task
-      setTasks(prevTasks => [...prevTasks, task]);
+  const handleCreateTask = (task: Task) => {
+    setTasks(prevTasks => [...prevTasks, task]);
+    setShowForm(false);
+  };
+
+  // Only the fields changed in the form are written onto the task as it is now, so changes made
+  // on the card, by undo or in another tab while the form was open are kept. Completing it goes
+  // through the status workflow so repeat rules carry over the same way as from the card
+  const handleUpdateTask = (id: string, { status, ...changes }: Partial<Task>) => {
+    setTasks(prevTasks => prevTasks.map(t => t.id === id ? { ...t, ...changes } : t));
+    const task = latestTasksRef.current.find(t => t.id === id);
+    if (task && status === DONE_STATUS && !isTaskDone(task)) {
+      if (getOpenBlockers(task, latestTasksRef.current).length > 0) {
+        toast.warning(`"${task.title}" was completed while tasks blocking it are still open`);
+      }
+      applyStatusChange(id, DONE_STATUS);
     }
+    setEditingTask(null);
     setShowForm(false);
   };
 
@@ -67,16 +218,386 @@ const Index = () => {
     setShowForm(true);
   };
 
+  // Mention links jump to the task's card when it's in the current list, otherwise open it for editing
+  const handleOpenTask = (id: string) => {
+    const card = document.querySelector<HTMLElement>(`[data-task-id="${id}"]`);
+    if (card) {
+      card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      card.focus({ preventScroll: true });
+      return;
+    }
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    if (isTaskTrashed(task)) {
+      toast(`"${task.title}" is in the Trash`, {
+        action: { label: 'Open Trash', onClick: () => navigate(TRASH_PATH) }
+      });
+      return;
+    }
+    handleEditTask(task);
+  };
+
+  // Deleting moves a task to the Trash; deleting it from the Trash removes it for good
   const handleDeleteTask = (id: string) => {
-    setTasks(prevTasks => prevTasks.filter(task => task.id !== id));
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    if (isTaskTrashed(task)) {
+      setTasks(prevTasks => deleteTasksPermanently(prevTasks, [id]));
+      return;
+    }
+
+    if (activeTimer?.taskId === id) {
+      stopActiveTimer();
+    }
+    if (editingTask?.id === id) {
+      handleCancelForm();
+    }
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === id ? { ...t, deletedAt: Date.now() } : t)
+    );
+  };
+
+  const handleRestoreTask = (id: string) => {
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === id ? { ...t, deletedAt: undefined } : t)
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    setTasks(
+      prevTasks => deleteTasksPermanently(prevTasks, prevTasks.filter(isTaskTrashed).map(t => t.id)),
+      { label: 'Emptied the Trash' }
+    );
+  };
+
+  const handleSetArchived = (id: string, archived: boolean) => {
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === id ? { ...t, archivedAt: archived ? Date.now() : undefined } : t)
+    );
+  };
+
+  // Moves every completed task in the current view out of the list in one go
+  const handleArchiveCompleted = () => {
+    const ids = viewTasks.filter(isTaskDone).map(t => t.id);
+    const archivedAt = Date.now();
+    setTasks(
+      prevTasks => prevTasks.map(t => ids.includes(t.id) ? { ...t, archivedAt } : t),
+      { label: `Archived ${ids.length} completed task${ids.length === 1 ? '' : 's'}` }
+    );
+  };
+
+  const applyStatusChange = (id: string, status: TaskStatus) => {
+    const task = tasks.find(t => t.id === id);
+    const isCompleting = task && !isTaskDone(task) && status === DONE_STATUS;
+    if (status === DONE_STATUS && activeTimer?.taskId === id) {
+      stopActiveTimer();
+    }
+
+    setTasks(prevTasks => {
+      const target = prevTasks.find(t => t.id === id);
+      if (!target || target.status === status) return prevTasks;
+
+      // Completing a recurring task hands its repeat rule on to the next occurrence
+      const completesSeries = !isTaskDone(target) && status === DONE_STATUS && target.repeat;
+      const nextOccurrence = completesSeries ? createNextOccurrence(target) : null;
+      const updatedTasks = prevTasks.map(t => {
+        if (t.id !== id) return t;
+        // Reopened tasks come back out of the Archive
+        const archivedAt = status === DONE_STATUS ? t.archivedAt : undefined;
+        return completesSeries ? { ...t, status, archivedAt, repeat: undefined } : { ...t, status, archivedAt };
+      });
+      return nextOccurrence ? [...updatedTasks, nextOccurrence] : updatedTasks;
+    });
+
+    if (isCompleting && task.repeat) {
+      const nextDate = getNextOccurrenceDate(task);
+      toast(nextDate
+        ? `Next "${task.title}" is due ${nextDate.toLocaleDateString()}`
+        : `That was the last "${task.title}" in the series`
+      );
+    }
+  };
+
+  // Completing a task that still waits on open blockers asks for confirmation first
+  const handleChangeStatus = (id: string, status: TaskStatus) => {
+    const task = tasks.find(t => t.id === id);
+    if (task && !isTaskDone(task) && status === DONE_STATUS && getOpenBlockers(task, tasks).length > 0) {
+      setPendingCompletionId(id);
+      return;
+    }
+    applyStatusChange(id, status);
   };
 
   const handleToggleComplete = (id: string) => {
-    setTasks(prevTasks => 
-      prevTasks.map(task => 
-        task.id === id ? { ...task, isCompleted: !task.isCompleted } : task
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    handleChangeStatus(id, isTaskDone(task) ? DEFAULT_STATUS : DONE_STATUS);
+  };
+
+  // Logs the running stretch as a time entry on its task
+  const stopActiveTimer = () => {
+    if (!activeTimer) return;
+    const entry = createTimeEntry(activeTimer.startedAt);
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === activeTimer.taskId
+        ? { ...t, timeEntries: [...(t.timeEntries || []), entry] }
+        : t
       )
     );
+    setActiveTimer(null);
+  };
+
+  // Starting a tracker stops whichever one is running, so only one task is tracked at a time
+  const handleToggleTimer = (id: string) => {
+    const isRunningHere = activeTimer?.taskId === id;
+    if (activeTimer && !isRunningHere) {
+      const trackedTask = tasks.find(t => t.id === activeTimer.taskId);
+      if (trackedTask) {
+        toast(`Stopped tracking "${trackedTask.title}"`);
+      }
+    }
+    stopActiveTimer();
+    if (!isRunningHere) {
+      setActiveTimer({ taskId: id, startedAt: Date.now() });
+    }
+  };
+
+  // Ticks a "- [ ]" item in the description by rewriting that line of the stored text
+  const handleToggleDescriptionItem = (taskId: string, line: number) => {
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === taskId ? { ...t, description: toggleTaskListItem(t.description, line) } : t)
+    );
+  };
+
+  const handleToggleChecklistItem = (taskId: string, itemId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const checklist = toggleChecklistItem(task.checklist || [], itemId);
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === taskId ? { ...t, checklist } : t)
+    );
+
+    // Offer to complete the parent task once its last item is checked off
+    if (!isTaskDone(task) && isChecklistComplete(checklist)) {
+      toast(`All items in "${task.title}" are done`, {
+        action: {
+          label: 'Complete task',
+          onClick: () => handleChangeStatus(taskId, DONE_STATUS)
+        }
+      });
+    }
+  };
+
+  const handleChangeComments = (taskId: string, comments: TaskComment[]) => {
+    setTasks(prevTasks =>
+      prevTasks.map(t => t.id === taskId ? { ...t, comments } : t)
+    );
+  };
+
+  const describeHistoryValue = (field: keyof Task, value: unknown) =>
+    formatHistoryValue(field, value, { tasks, tags, projects, statuses, priorities, customFields, people });
+
+  // Restores the value a field had before the given change; the restore is itself recorded
+  const handleRevertChange = (taskId: string, change: TaskChange) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    const label = (HISTORY_FIELD_LABELS[change.field] || change.field).toLowerCase();
+
+    // Status changes keep their side effects (blocker checks, next occurrences)
+    if (change.field === 'status') {
+      handleChangeStatus(taskId, (change.from as TaskStatus) || DEFAULT_STATUS);
+      return;
+    }
+
+    let value = change.from;
+    if (change.field === 'projectId' && value && !projects.some(project => project.id === value)) {
+      toast.error(`Can't restore the project of "${task.title}" because it was deleted`);
+      return;
+    }
+    if (change.field === 'priority' && !priorities.some(level => level.id === value)) {
+      toast.error(`Can't restore the priority of "${task.title}" because that level was removed`);
+      return;
+    }
+    if (change.field === 'tagIds' && value) {
+      value = (value as string[]).filter(tagId => tags.some(tag => tag.id === tagId));
+    }
+    if (change.field === 'blockedBy' && value) {
+      const blockerIds = (value as string[]).filter(blockerId => tasks.some(t => t.id === blockerId));
+      const tasksWithDraft = tasks.map(t => t.id === taskId ? { ...t, blockedBy: blockerIds } : t);
+      if (blockerIds.some(blockerId => wouldCreateCycle(tasksWithDraft, taskId, blockerId))) {
+        toast.error('Restoring these blockers would create a dependency cycle');
+        return;
+      }
+      value = blockerIds;
+    }
+
+    setTasks(
+      prevTasks => prevTasks.map(t => t.id === taskId ? { ...t, [change.field]: value } : t),
+      { label: `Restored the previous ${label} of "${task.title}"` }
+    );
+  };
+
+  const handleCreateTag = (name: string, color: string) => {
+    const tag = createTag(name, color);
+    setTags(prevTags => [...prevTags, tag]);
+    return tag;
+  };
+
+  // Tasks reference tags by id, so a rename or recolor shows up everywhere at once
+  const handleUpdateTag = (tag: Tag) => {
+    setTags(prevTags => prevTags.map(t => t.id === tag.id ? tag : t));
+  };
+
+  const handleDeleteTag = (id: string) => {
+    setTags(prevTags => prevTags.filter(tag => tag.id !== id));
+    setSelectedTagIds(prevIds => prevIds.filter(tagId => tagId !== id));
+    setTasks(
+      prevTasks => prevTasks.map(task => task.tagIds?.includes(id)
+        ? { ...task, tagIds: task.tagIds.filter(tagId => tagId !== id) }
+        : task
+      ),
+      { isUndoable: false }
+    );
+  };
+
+  const handleCreateProject = (name: string) => {
+    const project = createProject(name);
+    setProjects(prevProjects => [...prevProjects, project]);
+    navigate(getProjectPath(project.id));
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setProjects(prevProjects =>
+      prevProjects.map(project => project.id === id ? { ...project, name } : project)
+    );
+  };
+
+  // Tasks of a deleted project fall back to the Inbox rather than being lost
+  const handleDeleteProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    const movedCount = tasks.filter(task => task.projectId === id).length;
+
+    setProjects(prevProjects => prevProjects.filter(p => p.id !== id));
+    setTasks(
+      prevTasks => prevTasks.map(task => task.projectId === id ? { ...task, projectId: undefined } : task),
+      { isUndoable: false }
+    );
+    if (projectId === id) {
+      navigate(INBOX_PATH);
+    }
+    if (project && movedCount > 0) {
+      toast(`Deleted "${project.name}"`, {
+        description: `${movedCount} task${movedCount === 1 ? ' was' : 's were'} moved to the Inbox`
+      });
+    }
+  };
+
+  const handleCreateStatus = (label: string, color: string) => {
+    setCustomStatuses(prevStatuses => [...prevStatuses, createStatus(label, color)]);
+  };
+
+  const handleUpdateStatus = (status: StatusDefinition) => {
+    setCustomStatuses(prevStatuses => prevStatuses.map(s => s.id === status.id ? status : s));
+  };
+
+  const handleDeleteStatus = (id: string) => {
+    setCustomStatuses(prevStatuses => prevStatuses.filter(s => s.id !== id));
+    setTasks(
+      prevTasks => prevTasks.map(task => task.status === id ? { ...task, status: DEFAULT_STATUS } : task),
+      { isUndoable: false }
+    );
+  };
+
+  const handleCreatePriority = (label: string) => {
+    setPriorities(prevLevels => [...prevLevels, createPriorityLevel(label, getNextPriorityColor(prevLevels))]);
+  };
+
+  const handleUpdatePriority = (level: PriorityLevel) => {
+    setPriorities(prevLevels => prevLevels.map(l => l.id === level.id ? level : l));
+  };
+
+  const handleMovePriority = (id: string, offset: -1 | 1) => {
+    setPriorities(prevLevels => movePriorityLevel(prevLevels, id, offset));
+  };
+
+  const handleDeletePriority = (id: string) => {
+    const replacement = getReplacementPriority(priorities, id);
+    if (!replacement) return;
+    setPriorities(prevLevels => prevLevels.filter(l => l.id !== id));
+    setTasks(
+      prevTasks => prevTasks.map(task => task.priority === id ? { ...task, priority: replacement.id } : task),
+      { isUndoable: false }
+    );
+  };
+
+  const handleApplyPriorityPreset = (levels: PriorityLevel[]) => {
+    setTasks(prevTasks => mapTaskPriorities(prevTasks, priorities, levels), { isUndoable: false });
+    setPriorities(levels);
+    toast(`Switched to the ${levels.map(level => level.label).join(' / ')} scale`);
+  };
+
+  const handleCreatePerson = (name: string) => {
+    setPeople(prevPeople => [...prevPeople, createPerson(name, getNextPersonColor(prevPeople))]);
+  };
+
+  const handleRenamePerson = (id: string, name: string) => {
+    setPeople(prevPeople => prevPeople.map(person => person.id === id ? { ...person, name } : person));
+  };
+
+  const handleDeletePerson = (id: string) => {
+    setPeople(prevPeople => prevPeople.filter(person => person.id !== id));
+    setTasks(
+      prevTasks => prevTasks.map(task => task.assigneeIds?.includes(id)
+        ? { ...task, assigneeIds: task.assigneeIds.filter(personId => personId !== id) }
+        : task
+      ),
+      { isUndoable: false }
+    );
+    if (currentPersonId === id) {
+      setCurrentPersonId(null);
+      setAssignmentFilter(prevFilter => prevFilter === 'me' ? 'all' : prevFilter);
+    }
+  };
+
+  // Drops stored values that no longer fit the given field definitions
+  const pruneCustomFieldValues = (fields: CustomFieldDefinition[]) => {
+    setTasks(
+      prevTasks => prevTasks.map(task => {
+        if (!task.customFields) return task;
+        const values = cleanCustomFieldValues(task.customFields, fields);
+        return { ...task, customFields: Object.keys(values).length > 0 ? values : undefined };
+      }),
+      { isUndoable: false }
+    );
+  };
+
+  const handleCreateField = (name: string, type: CustomFieldType, options: string[]) => {
+    setCustomFields(prevFields => [...prevFields, createCustomField(name, type, options)]);
+  };
+
+  // Removing an option also clears it from the tasks that had it selected
+  const handleUpdateField = (field: CustomFieldDefinition) => {
+    const updatedFields = customFields.map(f => f.id === field.id ? field : f);
+    setCustomFields(updatedFields);
+    pruneCustomFieldValues(updatedFields);
+  };
+
+  const handleDeleteField = (id: string) => {
+    const remainingFields = customFields.filter(field => field.id !== id);
+    setCustomFields(remainingFields);
+    pruneCustomFieldValues(remainingFields);
+    if (sort.key === getCustomFieldSortKey(id)) {
+      setSort(DEFAULT_SORT);
+    }
+  };
+
+  // Positions are relative to the tasks currently shown, so reordering works while filtering too
+  const handleMoveTask = (id: string, targetIndex: number) => {
+    const order = getOrderForPosition(filteredTasks, id, targetIndex, sort.direction);
+    if (order === undefined) return;
+    setTasks(prevTasks => prevTasks.map(t => t.id === id ? { ...t, order } : t));
   };
 
   const handleCancelForm = () => {
@@ -84,16 +605,94 @@ const Index = () => {
     setEditingTask(null);
   };
 
-  // Filter tasks based on search query
-  const filteredTasks = tasks.filter(task => 
-    task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    task.description.toLowerCase().includes(searchQuery.toLowerCase())
+  // Tasks belonging to the current route: everything, the Inbox, one project, the Archive or the Trash
+  const routeTasks = tasks.filter(task =>
+    isTrash ? isTaskTrashed(task) :
+      isTaskTrashed(task) ? false :
+        isArchive ? isTaskArchived(task) :
+          isInbox ? !task.projectId :
+            projectId ? task.projectId === projectId :
+              true
+  );
+  const viewTasks = isTrash || isArchive ? routeTasks : routeTasks.filter(task => !isTaskArchived(task));
+  const viewTitle = isTrash ? 'Trash' : isArchive ? 'Archive' : isInbox ? 'Inbox' : activeProject ? activeProject.name : 'My Tasks';
+  // Archived tasks stay out of the list but still turn up when searching
+  const searchableTasks = searchQuery ? routeTasks : viewTasks;
+  const activeTasks = tasks.filter(task => !isTaskTrashed(task));
+
+  // Filter tasks based on search query (title, description, comments and custom fields) and selected tags
+  const matchingTasks = searchableTasks.filter(task => 
+    (task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      task.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      commentsMatchQuery(task.comments, searchQuery) ||
+      customFieldsMatchQuery(task, customFields, searchQuery)) &&
+    (selectedTagIds.length === 0 || selectedTagIds.some(tagId => task.tagIds?.includes(tagId))) &&
+    matchesAssignmentFilter(task.assigneeIds, assignmentFilter, currentPersonId)
+  );
+  // Tasks that haven't reached their start date stay hidden unless asked for
+  const todayKey = getTodayKey();
+  const scheduledCount = matchingTasks.filter(task => isTaskScheduled(task, todayKey)).length;
+  const filteredTasks = sortTasks(
+    showScheduled ? matchingTasks : matchingTasks.filter(task => !isTaskScheduled(task, todayKey)),
+    sort,
+    customFields,
+    priorities
   );
+  const hiddenScheduledCount = matchingTasks.length - filteredTasks.length;
+  const hasActiveFilters = selectedTagIds.length > 0 || assignmentFilter !== 'all';
+  const isFiltering = searchQuery !== "" || hasActiveFilters || hiddenScheduledCount > 0;
+
+  // Totals only show whole minutes, so a slow refresh is enough while a tracker runs
+  const now = useNow(!!activeTimer, 30 * 1000);
+  const trackedTotal = filteredTasks.reduce((total, task) => total + getTrackedMs(task, activeTimer, now), 0);
+  const estimatedTotal = filteredTasks.reduce((total, task) => total + estimateToMs(task.estimateMinutes || 0), 0);
+  const completedThisWeek = filteredTasks.filter(task => isCompletedWithinDays(task, 7)).length;
+
+  const projectTaskCounts = countOpenTasks(tasks);
+  const backlinkMap = getBacklinkMap(activeTasks);
+
+  const statusUsageCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+    counts[task.status] = (counts[task.status] || 0) + 1;
+    return counts;
+  }, {});
+
+  const priorityUsageCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+    const level = getPriorityLevel(priorities, task.priority);
+    counts[level.id] = (counts[level.id] || 0) + 1;
+    return counts;
+  }, {});
+
+  const customFieldUsageCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+    Object.keys(task.customFields || {}).forEach(fieldId => {
+      counts[fieldId] = (counts[fieldId] || 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  const personUsageCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+    task.assigneeIds?.forEach(personId => {
+      counts[personId] = (counts[personId] || 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  const tagUsageCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+    task.tagIds?.forEach(tagId => {
+      counts[tagId] = (counts[tagId] || 0) + 1;
+    });
+    return counts;
+  }, {});
 
   const clearSearch = () => {
     setSearchQuery("");
   };
 
+  const clearFilters = () => {
+    setSearchQuery("");
+    setSelectedTagIds([]);
+    setAssignmentFilter('all');
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -109,403 +708,686 @@ const Index = () => {
       if (e.key === 'Escape' && searchQuery) {
         clearSearch();
       }
+      // Ctrl/Cmd + Z to undo, with Shift to redo; text fields keep their own undo
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && !isEditableTarget(e.target)) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      }
     };
 
     if (testStarted && !isLoading) {
       document.addEventListener('keydown', handleKeyDown);
       return () => document.removeEventListener('keydown', handleKeyDown);
     }
-  }, [testStarted, isLoading, searchQuery]);
+  }, [testStarted, isLoading, searchQuery, undo, redo]);
+
+  const pendingCompletionTask = tasks.find(task => task.id === pendingCompletionId) || null;
+
+  // Unknown project ids get the regular 404 page
+  if (projectId && !activeProject) {
+    return <NotFound />;
+  }
 
   return (
-    <div className="min-h-screen bg-background text-foreground">
-      {/* Header */}
-      <header className="border-b border-border bg-card">
-        <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-destructive bg-clip-text text-transparent">
-                60-Minute Frontend Test
-              </h1>
-              <p className="text-muted-foreground mt-2">
-                Build a Task Management Application
-              </p>
-            </div>
-            <div className="flex items-center gap-4">
-              {!testStarted ? (
-                <Button onClick={handleStartTest} size="lg" className="bg-primary hover:bg-primary/90">
-                  Start Test
-                </Button>
-              ) : (
-                <>
-                  <div className={`flex items-center gap-2 text-sm font-medium px-3 py-1 rounded-full ${timeRemaining <= 300 ? 'bg-destructive/20 text-destructive' :
-                    timeRemaining <= 900 ? 'bg-warning/20 text-warning' :
-                      'bg-muted text-muted-foreground'
-                    }`}>
-                    <Clock className="w-4 h-4" />
-                    <span>Time Remaining: {formatTime(timeRemaining)}</span>
+    <SidebarProvider>
+      {testStarted && !isLoading && (
+        <ProjectSidebar
+          projects={projects}
+          counts={projectTaskCounts}
+          activePath={location.pathname}
+          onCreateProject={handleCreateProject}
+          onRenameProject={handleRenameProject}
+          onDeleteProject={handleDeleteProject}
+          archiveCount={tasks.filter(isTaskArchived).length}
+          trashCount={tasks.filter(isTaskTrashed).length}
+          footer={
+            <PeopleManager
+              people={people}
+              currentPersonId={currentPersonId}
+              usageCounts={personUsageCounts}
+              onCreatePerson={handleCreatePerson}
+              onRenamePerson={handleRenamePerson}
+              onDeletePerson={handleDeletePerson}
+              onSetCurrentPerson={setCurrentPersonId}
+            />
+          }
+        />
+      )}
+      <SidebarInset>
+        <div className="min-h-screen bg-background text-foreground">
+          {/* Header */}
+          <header className="border-b border-border bg-card">
+            <div className="container mx-auto px-4 py-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-start gap-3">
+                  {testStarted && !isLoading && (
+                    <SidebarTrigger className="mt-1.5" aria-label="Toggle project navigator" />
+                  )}
+                  <div>
+                    <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-destructive bg-clip-text text-transparent">
+                      60-Minute Frontend Test
+                    </h1>
+                    <p className="text-muted-foreground mt-2">
+                      Build a Task Management Application
+                    </p>
                   </div>
-                  <Button onClick={handleResetTest} variant="outline" size="sm">
-                    Reset Test
-                  </Button>
-                </>
-              )}
-            </div>
-          </div>
-        </div>
-      </header>
-
-      <div className="container mx-auto px-4 py-8">
-        {/* Time Up Alert */}
-        {isTimeUp && (
-          <Alert className="mb-6 border-destructive bg-destructive/10">
-            <AlertTriangle className="h-4 w-4 text-destructive" />
-            <AlertDescription className="text-destructive font-medium">
-              Time's up! The 60-minute test period has ended. Please stop coding and review your work.
-            </AlertDescription>
-          </Alert>
-        )}
-
-        {/* Test Not Started State */}
-        {!testStarted && (
-          <div className="flex items-center justify-center min-h-[60vh]">
-            <Card className="max-w-2xl">
-              <CardHeader className="text-center">
-                <CardTitle className="text-2xl">Ready to Start Your 60-Minute Test?</CardTitle>
-                <CardDescription className="text-lg">
-                  Once you click "Start Test", the timer will begin and you'll have exactly 60 minutes to complete the task management application.
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="bg-muted/50 p-4 rounded-lg">
-                  <h3 className="font-semibold mb-2">What you'll be building:</h3>
-                  <ul className="text-sm space-y-1 text-muted-foreground">
-                    <li>• TaskCard component with proper TypeScript interfaces</li>
-                    <li>• CRUD operations with localStorage persistence</li>
-                    <li>• Validated task form with error handling</li>
-                    <li>• Responsive design with smooth animations</li>
-                    <li>• One advanced feature (search, sort, or drag & drop)</li>
-                  </ul>
-                </div>
-                <div className="flex justify-center pt-4">
-                  <Button onClick={handleStartTest} size="lg" className="bg-primary hover:bg-primary/90">
-                    <Clock className="w-4 h-4 mr-2" />
-                    Start 60-Minute Test
-                  </Button>
                 </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-
-        {/* Loading State */}
-        {testStarted && isLoading && (
-          <div className="flex items-center justify-center min-h-[60vh]">
-            <Card className="max-w-md">
-              <CardContent className="flex flex-col items-center justify-center py-12">
-                <div className="relative mb-6">
-                  <div className="w-12 h-12 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
-                  <div className="absolute inset-0 w-12 h-12 border-4 border-transparent border-r-primary/40 rounded-full animate-spin animation-delay-150" />
+                <div className="flex items-center gap-4">
+                  {!testStarted ? (
+                    <Button onClick={handleStartTest} size="lg" className="bg-primary hover:bg-primary/90">
+                      Start Test
+                    </Button>
+                  ) : (
+                    <>
+                      <div className={`flex items-center gap-2 text-sm font-medium px-3 py-1 rounded-full ${timeRemaining <= 300 ? 'bg-destructive/20 text-destructive' :
+                        timeRemaining <= 900 ? 'bg-warning/20 text-warning' :
+                          'bg-muted text-muted-foreground'
+                        }`}>
+                        <Clock className="w-4 h-4" />
+                        <span>Time Remaining: {formatTime(timeRemaining)}</span>
+                      </div>
+                      <Button onClick={handleResetTest} variant="outline" size="sm">
+                        Reset Test
+                      </Button>
+                    </>
+                  )}
                 </div>
-                <h3 className="text-lg font-medium mb-2">Loading your workspace...</h3>
-                <p className="text-muted-foreground text-center text-sm">
-                  Setting up your task management environment
-                </p>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-
-        {/* Test Content - Only show when test is started */}
-        {testStarted && !isLoading && (
-          <>
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-              {/* Requirements Panel */}
-              <div className="lg:col-span-1">
-                <Card className="sticky top-8">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <FileText className="w-5 h-5" />
-                      Test Requirements
-                    </CardTitle>
-                    <CardDescription>
-                      Complete these features within 60 minutes
+              </div>
+            </div>
+          </header>
+
+          <div className="container mx-auto px-4 py-8">
+            {/* Time Up Alert */}
+            {isTimeUp && (
+              <Alert className="mb-6 border-destructive bg-destructive/10">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <AlertDescription className="text-destructive font-medium">
+                  Time's up! The 60-minute test period has ended. Please stop coding and review your work.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Test Not Started State */}
+            {!testStarted && (
+              <div className="flex items-center justify-center min-h-[60vh]">
+                <Card className="max-w-2xl">
+                  <CardHeader className="text-center">
+                    <CardTitle className="text-2xl">Ready to Start Your 60-Minute Test?</CardTitle>
+                    <CardDescription className="text-lg">
+                      Once you click "Start Test", the timer will begin and you'll have exactly 60 minutes to complete the task management application.
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-sm">✅ Project Setup (5min)</h4>
-                      <p className="text-xs text-muted-foreground">Understanding the codebase and technologies</p>
+                    <div className="bg-muted/50 p-4 rounded-lg">
+                      <h3 className="font-semibold mb-2">What you'll be building:</h3>
+                      <ul className="text-sm space-y-1 text-muted-foreground">
+                        <li>• TaskCard component with proper TypeScript interfaces</li>
+                        <li>• CRUD operations with localStorage persistence</li>
+                        <li>• Validated task form with error handling</li>
+                        <li>• Responsive design with smooth animations</li>
+                        <li>• One advanced feature (search, sort, or drag & drop)</li>
+                      </ul>
                     </div>
-
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-sm">✅ TaskCard Component (15min)</h4>
-                      <p className="text-xs text-muted-foreground">Create reusable task display component</p>
-                    </div>
-
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-sm">✅ State Management (10min)</h4>
-                      <p className="text-xs text-muted-foreground">CRUD operations with localStorage</p>
-                    </div>
-
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-sm">✅ Task Form (15min)</h4>
-                      <p className="text-xs text-muted-foreground">Form with validation and error handling</p>
-                    </div>
-
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-sm">✅ Styling & UX (10min)</h4>
-                      <p className="text-xs text-muted-foreground">Animations, responsive design, accessibility</p>
+                    <div className="flex justify-center pt-4">
+                      <Button onClick={handleStartTest} size="lg" className="bg-primary hover:bg-primary/90">
+                        <Clock className="w-4 h-4 mr-2" />
+                        Start 60-Minute Test
+                      </Button>
                     </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
 
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-sm">✅ Advanced Feature (5min)</h4>
-                      <p className="text-xs text-muted-foreground">Search, sort, or drag & drop</p>
+            {/* Loading State */}
+            {testStarted && isLoading && (
+              <div className="flex items-center justify-center min-h-[60vh]">
+                <Card className="max-w-md">
+                  <CardContent className="flex flex-col items-center justify-center py-12">
+                    <div className="relative mb-6">
+                      <div className="w-12 h-12 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
+                      <div className="absolute inset-0 w-12 h-12 border-4 border-transparent border-r-primary/40 rounded-full animate-spin animation-delay-150" />
                     </div>
+                    <h3 className="text-lg font-medium mb-2">Loading your workspace...</h3>
+                    <p className="text-muted-foreground text-center text-sm">
+                      Setting up your task management environment
+                    </p>
                   </CardContent>
                 </Card>
               </div>
+            )}
 
-              {/* Main Application Area */}
-              <div className="lg:col-span-2">
-                <div className="space-y-6 animate-in fade-in-0 slide-in-from-right-4 duration-500 delay-200">
-                  {/* Action Bar */}
-                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 
-                    p-4 rounded-lg bg-card/50 border border-border/50">
-                    <div className="space-y-1">
-                      <h2 className="text-xl sm:text-2xl font-semibold flex items-center gap-2">
-                        My Tasks
-                        {tasks.length > 0 && (
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary animate-in zoom-in-50 duration-300">
-                            {searchQuery ? `${filteredTasks.length}/${tasks.length}` : tasks.length}
-                          </span>
-                        )}
-                      </h2>
-                      <p className="text-sm text-muted-foreground">
-                        {tasks.length === 0 
-                          ? "Ready to be productive? Add your first task!" 
-                          : searchQuery 
-                            ? (
-                              <span className="flex items-center gap-2">
-                                <span>
-                                  Showing {filteredTasks.length} of {tasks.length} tasks
-                                </span>
-                              </span>
-                            )
-                            : (
-                              <span className="flex items-center gap-2">
-                                <span>
-                                  {tasks.filter(t => t.isCompleted).length} of {tasks.length} completed
-                                </span>
-                                {tasks.length > 0 && (
-                                  <div className="flex-1 max-w-24 bg-muted rounded-full h-1.5 overflow-hidden">
-                                    <div 
-                                      className={`h-full bg-green-500 progress-bar`}
-                                      style={{ 
-                                        '--progress': `${(tasks.filter(t => t.isCompleted).length / tasks.length) * 100}%`,
-                                        width: `${(tasks.filter(t => t.isCompleted).length / tasks.length) * 100}%` 
-                                      } as React.CSSProperties}
-                                    />
-                                  </div>
-                                )}
-                              </span>
-                            )
-                        }
-                      </p>
-                    </div>
-                    <Button
-                      onClick={() => {
-                        setEditingTask(null);
-                        setShowForm(!showForm);
-                      }}
-                      className="transition-all duration-200 hover:scale-105 active:scale-95 
-                        bg-primary hover:bg-primary/90 self-start sm:self-auto"
-                      disabled={isTimeUp}
-                      size="sm"
-                    >
-                      <Plus className={`w-4 h-4 mr-2 transition-transform duration-200 
-                        ${showForm ? 'rotate-45' : 'rotate-0'}`} 
-                      />
-                      {showForm ? 'Cancel' : 'Add Task'}
-                    </Button>
-                  </div>
+            {/* Recovery - stored tasks that failed validation */}
+            {testStarted && isRecovering && (
+              <TaskRecovery
+                quarantinedTasks={quarantine.tasks}
+                validCount={tasks.length}
+                onContinue={() => setIsRecoveryDismissed(true)}
+                onDiscard={quarantine.discard}
+              />
+            )}
 
-                  {/* Task Form */}
-                  {showForm && (
-                    <div className="animate-in slide-in-from-top-4 duration-300">
-                      <TaskForm 
-                        onSubmit={handleAddTask}
-                        onCancel={handleCancelForm}
-                        editingTask={editingTask}
-                      />
-                    </div>
-                  )}
+            {/* Test Content - Only show when test is started */}
+            {testStarted && !isLoading && !isRecovering && (
+              <>
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {/* Requirements Panel */}
+                  <div className="lg:col-span-1">
+                    <Card className="sticky top-8">
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <FileText className="w-5 h-5" />
+                          Test Requirements
+                        </CardTitle>
+                        <CardDescription>
+                          Complete these features within 60 minutes
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-sm">✅ Project Setup (5min)</h4>
+                          <p className="text-xs text-muted-foreground">Understanding the codebase and technologies</p>
+                        </div>
 
-                  {/* Search Bar */}
-                  {tasks.length > 0 && (
-                    <div className="animate-in slide-in-from-top-2 duration-300 delay-100">
-                      <div className="relative">
-                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                        <Input
-                          value={searchQuery}
-                          onChange={(e) => setSearchQuery(e.target.value)}
-                          placeholder="Search tasks by title or description... (Ctrl+K)"
-                          className="pl-10 pr-24 transition-all duration-200 focus:scale-[1.01] 
-                            hover:border-primary/50 focus:border-primary"
-                        />
-                        <div className="absolute right-12 top-1/2 transform -translate-y-1/2 text-xs text-muted-foreground/60 hidden sm:block">
-                          <kbd className="px-1 py-0.5 bg-muted border border-border rounded text-xs">⌘K</kbd>
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-sm">✅ TaskCard Component (15min)</h4>
+                          <p className="text-xs text-muted-foreground">Create reusable task display component</p>
                         </div>
-                        {searchQuery && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={clearSearch}
-                            className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0 
-                              hover:bg-muted rounded-full transition-all duration-200 hover:scale-110"
-                            aria-label="Clear search"
-                          >
-                            <X className="w-3 h-3" />
-                          </Button>
-                        )}
+
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-sm">✅ State Management (10min)</h4>
+                          <p className="text-xs text-muted-foreground">CRUD operations with localStorage</p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-sm">✅ Task Form (15min)</h4>
+                          <p className="text-xs text-muted-foreground">Form with validation and error handling</p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-sm">✅ Styling & UX (10min)</h4>
+                          <p className="text-xs text-muted-foreground">Animations, responsive design, accessibility</p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <h4 className="font-medium text-sm">✅ Advanced Feature (5min)</h4>
+                          <p className="text-xs text-muted-foreground">Search, sort, or drag & drop</p>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  {/* Main Application Area */}
+                  <div className="lg:col-span-2">
+                    <div className="space-y-6 animate-in fade-in-0 slide-in-from-right-4 duration-500 delay-200">
+                      {/* Action Bar */}
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 
+                        p-4 rounded-lg bg-card/50 border border-border/50">
+                        <div className="space-y-1">
+                          <h2 className="text-xl sm:text-2xl font-semibold flex items-center gap-2">
+                            {viewTitle}
+                            {viewTasks.length > 0 && (
+                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary animate-in zoom-in-50 duration-300">
+                                {isFiltering ? `${filteredTasks.length}/${viewTasks.length}` : viewTasks.length}
+                              </span>
+                            )}
+                          </h2>
+                          <p className="text-sm text-muted-foreground">
+                            {viewTasks.length === 0 
+                              ? isTrash
+                                ? "Deleted tasks wait here before they're removed for good"
+                                : isArchive
+                                  ? "Archived tasks are kept here, out of the way"
+                                  : "Ready to be productive? Add your first task!" 
+                              : isFiltering 
+                                ? (
+                                  <span className="flex items-center gap-2">
+                                    <span>
+                                      Showing {filteredTasks.length} of {viewTasks.length} tasks
+                                    </span>
+                                  </span>
+                                )
+                                : (
+                                  <span className="flex items-center gap-2">
+                                    <span>
+                                      {viewTasks.filter(isTaskDone).length} of {viewTasks.length} completed
+                                    </span>
+                                    {viewTasks.length > 0 && (
+                                      <div className="flex-1 max-w-24 bg-muted rounded-full h-1.5 overflow-hidden">
+                                        <div 
+                                          className={`h-full bg-green-500 progress-bar`}
+                                          style={{ 
+                                            '--progress': `${(viewTasks.filter(isTaskDone).length / viewTasks.length) * 100}%`,
+                                            width: `${(viewTasks.filter(isTaskDone).length / viewTasks.length) * 100}%` 
+                                          } as React.CSSProperties}
+                                        />
+                                      </div>
+                                    )}
+                                  </span>
+                                )
+                            }
+                          </p>
+                        </div>
+                        <Button
+                          onClick={() => {
+                            setEditingTask(null);
+                            setShowForm(!showForm);
+                          }}
+                          className="transition-all duration-200 hover:scale-105 active:scale-95 
+                            bg-primary hover:bg-primary/90 self-start sm:self-auto"
+                          disabled={isTimeUp || isTrash || isArchive}
+                          size="sm"
+                        >
+                          <Plus className={`w-4 h-4 mr-2 transition-transform duration-200 
+                            ${showForm ? 'rotate-45' : 'rotate-0'}`} 
+                          />
+                          {showForm ? 'Cancel' : 'Add Task'}
+                        </Button>
                       </div>
-                      {searchQuery && (
-                        <div className="mt-2 text-sm text-muted-foreground animate-in fade-in-0 duration-200">
-                          {filteredTasks.length === 0 
-                            ? `No tasks found for "${searchQuery}"` 
-                            : `Found ${filteredTasks.length} task${filteredTasks.length === 1 ? '' : 's'} matching "${searchQuery}"`
-                          }
+
+                      {/* Task Form */}
+                      {showForm && (
+                        <div className="animate-in slide-in-from-top-4 duration-300">
+                          <TaskForm 
+                            onCreate={handleCreateTask}
+                            onUpdate={handleUpdateTask}
+                            onCancel={handleCancelForm}
+                            editingTask={editingTask}
+                            tags={tags}
+                            onCreateTag={handleCreateTag}
+                            projects={projects}
+                            defaultProjectId={activeProject?.id}
+                            tasks={activeTasks}
+                            priorities={priorities}
+                            statuses={statuses}
+                            customFields={customFields}
+                            people={people}
+                          />
                         </div>
                       )}
-                    </div>
-                  )}
 
-                  {/* Task List Area */}
-                  <div className="space-y-4">
-                    {tasks.length === 0 ? (
-                      <Card className="border-dashed border-2 hover:border-primary/30 transition-colors 
-                        animate-in fade-in-0 slide-in-from-bottom-4 duration-500 delay-300">
-                        <CardContent className="flex flex-col items-center justify-center py-16 px-8">
-                          <div className="relative mb-6">
-                            <CheckCircle2 className="w-16 h-16 text-muted-foreground/50 animate-pulse" />
-                            <div className="absolute -top-1 -right-1 w-6 h-6 bg-primary/20 rounded-full 
-                              animate-ping" />
-                          </div>
-                          <h3 className="text-xl font-medium mb-3 text-center">Ready to get organized?</h3>
-                          <p className="text-muted-foreground text-center max-w-md leading-relaxed mb-6">
-                            Start building your productivity with your first task. 
-                            Click <strong>"Add Task"</strong> above to begin your journey!
-                          </p>
-                          <div className="flex flex-wrap gap-2 justify-center text-xs text-muted-foreground">
-                            <span className="px-2 py-1 bg-muted rounded-full">✨ Set priorities</span>
-                            <span className="px-2 py-1 bg-muted rounded-full">📅 Due dates</span>
-                            <span className="px-2 py-1 bg-muted rounded-full">✅ Track progress</span>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    ) : filteredTasks.length === 0 ? (
-                      <Card className="border-dashed border-2 hover:border-primary/30 transition-colors 
-                        animate-in fade-in-0 slide-in-from-bottom-4 duration-300">
-                        <CardContent className="flex flex-col items-center justify-center py-12 px-8">
-                          <div className="relative mb-6">
-                            <Search className="w-12 h-12 text-muted-foreground/50" />
+                      {/* Search Bar */}
+                      {viewTasks.length > 0 && (
+                        <div className="animate-in slide-in-from-top-2 duration-300 delay-100">
+                          <div className="flex items-center gap-2">
+                            <div className="relative flex-1">
+                              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                              <Input
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                placeholder="Search tasks, descriptions and comments... (Ctrl+K)"
+                                className="pl-10 pr-24 transition-all duration-200 focus:scale-[1.01] 
+                                  hover:border-primary/50 focus:border-primary"
+                              />
+                              <div className="absolute right-12 top-1/2 transform -translate-y-1/2 text-xs text-muted-foreground/60 hidden sm:block">
+                                <kbd className="px-1 py-0.5 bg-muted border border-border rounded text-xs">⌘K</kbd>
+                              </div>
+                              {searchQuery && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={clearSearch}
+                                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0 
+                                    hover:bg-muted rounded-full transition-all duration-200 hover:scale-110"
+                                  aria-label="Clear search"
+                                >
+                                  <X className="w-3 h-3" />
+                                </Button>
+                              )}
+                            </div>
+                            <TagFilter
+                              tags={tags}
+                              selectedTagIds={selectedTagIds}
+                              onChange={setSelectedTagIds}
+                            />
+                            <AssigneeFilter
+                              value={assignmentFilter}
+                              hasCurrentPerson={!!currentPersonId}
+                              onChange={setAssignmentFilter}
+                            />
+                            <TaskSortMenu
+                              sort={sort}
+                              customFields={customFields}
+                              onChange={setSort}
+                            />
+                            <TagManager
+                              tags={tags}
+                              usageCounts={tagUsageCounts}
+                              onUpdateTag={handleUpdateTag}
+                              onDeleteTag={handleDeleteTag}
+                            />
                           </div>
-                          <h3 className="text-lg font-medium mb-3 text-center">No tasks found</h3>
-                          <p className="text-muted-foreground text-center max-w-md leading-relaxed mb-4">
-                            No tasks match your search for <strong>"{searchQuery}"</strong>
-                          </p>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={clearSearch}
-                            className="transition-all duration-200 hover:scale-105"
-                          >
-                            <X className="w-4 h-4 mr-2" />
-                            Clear Search
-                          </Button>
-                        </CardContent>
-                      </Card>
-                    ) : (
-                      <div className="space-y-3">
-                        {/* Task Stats */}
-                        <div className="flex flex-wrap gap-2 text-xs">
+                          {scheduledCount > 0 && (
+                            <div className="mt-2 flex items-center gap-2 text-sm text-muted-foreground animate-in fade-in-0 duration-200">
+                              <CalendarClock className="w-4 h-4" />
+                              <span>
+                                {showScheduled
+                                  ? `Including ${scheduledCount} scheduled task${scheduledCount === 1 ? '' : 's'}`
+                                  : `${hiddenScheduledCount} scheduled task${hiddenScheduledCount === 1 ? '' : 's'} hidden`
+                                }
+                              </span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setShowScheduled(!showScheduled)}
+                                className="h-6 px-2 text-xs"
+                                aria-pressed={showScheduled}
+                              >
+                                {showScheduled ? 'Hide scheduled' : 'Show scheduled'}
+                              </Button>
+                            </div>
+                          )}
                           {searchQuery && (
-                            <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full">
-                              🔍 {filteredTasks.length} filtered
-                            </span>
+                            <div className="mt-2 text-sm text-muted-foreground animate-in fade-in-0 duration-200">
+                              {filteredTasks.length === 0 
+                                ? `No tasks found for "${searchQuery}"` 
+                                : `Found ${filteredTasks.length} task${filteredTasks.length === 1 ? '' : 's'} matching "${searchQuery}"`
+                              }
+                            </div>
                           )}
-                          <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full">
-                            ✅ {(searchQuery ? filteredTasks : tasks).filter(t => t.isCompleted).length} completed
-                          </span>
-                          <span className="px-2 py-1 bg-orange-100 text-orange-700 rounded-full">
-                            ⏳ {(searchQuery ? filteredTasks : tasks).filter(t => !t.isCompleted).length} pending
-                          </span>
-                          {(searchQuery ? filteredTasks : tasks).some(t => t.dueDate && !t.isCompleted && new Date(t.dueDate) < new Date()) && (
-                            <span className="px-2 py-1 bg-red-100 text-red-700 rounded-full animate-pulse">
-                              🚨 {(searchQuery ? filteredTasks : tasks).filter(t => t.dueDate && !t.isCompleted && new Date(t.dueDate) < new Date()).length} overdue
-                            </span>
+                        </div>
+                      )}
+
+                      {/* Trash settings */}
+                      {isTrash && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                          <Trash2 className="w-4 h-4" />
+                          <span>Tasks are deleted for good after</span>
+                          <Select
+                            value={String(trashRetentionDays)}
+                            onValueChange={(days) => setTrashRetentionDays(Number(days))}
+                          >
+                            <SelectTrigger className="h-8 w-28" aria-label="Trash retention period">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {TRASH_RETENTION_OPTIONS.map(days => (
+                                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {viewTasks.length > 0 && (
+                            <ConfirmDialog
+                              trigger={
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="ml-auto h-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                >
+                                  Empty trash
+                                </Button>
+                              }
+                              title="Empty the Trash?"
+                              description={`${viewTasks.length} task${viewTasks.length === 1 ? '' : 's'} will be deleted for good. You can undo this until you close the page.`}
+                              confirmLabel="Empty trash"
+                              onConfirm={handleEmptyTrash}
+                            />
                           )}
                         </div>
-                        
-                        {/* Task Grid */}
-                        <div className="grid gap-3">
-                          {filteredTasks.map((task, index) => (
-                            <div
-                              key={task.id}
-                              className={`animate-in slide-in-from-bottom-2 duration-300 ease-out delay-${Math.min(index * 50, 1000)}`}
-                            >
-                              <TaskCard 
-                                {...task}
-                                onEdit={handleEditTask}
-                                onDelete={handleDeleteTask}
-                                onToggleComplete={handleToggleComplete}
-                              />
+                      )}
+
+                      {/* Workspace settings, available before the first task exists */}
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <StatusManager
+                          statuses={statuses}
+                          usageCounts={statusUsageCounts}
+                          onCreateStatus={handleCreateStatus}
+                          onUpdateStatus={handleUpdateStatus}
+                          onDeleteStatus={handleDeleteStatus}
+                        />
+                        <PriorityManager
+                          priorities={priorities}
+                          usageCounts={priorityUsageCounts}
+                          onCreatePriority={handleCreatePriority}
+                          onUpdatePriority={handleUpdatePriority}
+                          onMovePriority={handleMovePriority}
+                          onDeletePriority={handleDeletePriority}
+                          onApplyPreset={handleApplyPriorityPreset}
+                        />
+                        <CustomFieldManager
+                          fields={customFields}
+                          usageCounts={customFieldUsageCounts}
+                          onCreateField={handleCreateField}
+                          onUpdateField={handleUpdateField}
+                          onDeleteField={handleDeleteField}
+                        />
+                        <SyncSettings sync={sync} />
+                      </div>
+
+                      {/* Task List Area */}
+                      <div className="space-y-4">
+                        {viewTasks.length === 0 ? (
+                          <Card className="border-dashed border-2 hover:border-primary/30 transition-colors 
+                            animate-in fade-in-0 slide-in-from-bottom-4 duration-500 delay-300">
+                            <CardContent className="flex flex-col items-center justify-center py-16 px-8">
+                              <div className="relative mb-6">
+                                {isTrash ? (
+                                  <Trash2 className="w-16 h-16 text-muted-foreground/50" />
+                                ) : isArchive ? (
+                                  <Archive className="w-16 h-16 text-muted-foreground/50" />
+                                ) : (
+                                  <>
+                                    <CheckCircle2 className="w-16 h-16 text-muted-foreground/50 animate-pulse" />
+                                    <div className="absolute -top-1 -right-1 w-6 h-6 bg-primary/20 rounded-full 
+                                      animate-ping" />
+                                  </>
+                                )}
+                              </div>
+                              {isTrash || isArchive ? (
+                                <>
+                                  <h3 className="text-xl font-medium mb-3 text-center">
+                                    {isTrash ? 'The Trash is empty' : 'Nothing archived yet'}
+                                  </h3>
+                                  <p className="text-muted-foreground text-center max-w-md leading-relaxed">
+                                    {isTrash
+                                      ? `Deleted tasks can be restored from here for ${trashRetentionDays} days.`
+                                      : 'Archive completed tasks to keep your lists short without losing them.'
+                                    }
+                                  </p>
+                                </>
+                              ) : (
+                                <>
+                                  <h3 className="text-xl font-medium mb-3 text-center">Ready to get organized?</h3>
+                                  <p className="text-muted-foreground text-center max-w-md leading-relaxed mb-6">
+                                    Start building your productivity with your first task. 
+                                    Click <strong>"Add Task"</strong> above to begin your journey!
+                                  </p>
+                                  <div className="flex flex-wrap gap-2 justify-center text-xs text-muted-foreground">
+                                    <span className="px-2 py-1 bg-muted rounded-full">✨ Set priorities</span>
+                                    <span className="px-2 py-1 bg-muted rounded-full">📅 Due dates</span>
+                                    <span className="px-2 py-1 bg-muted rounded-full">✅ Track progress</span>
+                                  </div>
+                                </>
+                              )}
+                            </CardContent>
+                          </Card>
+                        ) : filteredTasks.length === 0 ? (
+                          <Card className="border-dashed border-2 hover:border-primary/30 transition-colors 
+                            animate-in fade-in-0 slide-in-from-bottom-4 duration-300">
+                            <CardContent className="flex flex-col items-center justify-center py-12 px-8">
+                              <div className="relative mb-6">
+                                <Search className="w-12 h-12 text-muted-foreground/50" />
+                              </div>
+                              <h3 className="text-lg font-medium mb-3 text-center">No tasks found</h3>
+                              <p className="text-muted-foreground text-center max-w-md leading-relaxed mb-4">
+                                {searchQuery
+                                  ? <>No tasks match your search for <strong>"{searchQuery}"</strong></>
+                                  : hasActiveFilters
+                                    ? 'No tasks match the selected filters'
+                                    : 'Every task here is scheduled to start later'
+                                }
+                              </p>
+                              {searchQuery || hasActiveFilters ? (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={clearFilters}
+                                  className="transition-all duration-200 hover:scale-105"
+                                >
+                                  <X className="w-4 h-4 mr-2" />
+                                  {hasActiveFilters ? 'Clear Filters' : 'Clear Search'}
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setShowScheduled(true)}
+                                  className="transition-all duration-200 hover:scale-105"
+                                >
+                                  <CalendarClock className="w-4 h-4 mr-2" />
+                                  Show scheduled
+                                </Button>
+                              )}
+                            </CardContent>
+                          </Card>
+                        ) : (
+                          <div className="space-y-3">
+                            {/* Task Stats */}
+                            <div className="flex flex-wrap gap-2 text-xs">
+                              {isFiltering && (
+                                <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full">
+                                  🔍 {filteredTasks.length} filtered
+                                </span>
+                              )}
+                              {statuses.map(status => {
+                                const count = filteredTasks.filter(t => t.status === status.id).length;
+                                return count > 0 && (
+                                  <span
+                                    key={status.id}
+                                    className="px-2 py-1 rounded-full border"
+                                    style={getColorChipStyle(status.color)}
+                                  >
+                                    {status.label}: {count}
+                                  </span>
+                                );
+                              })}
+                              {filteredTasks.some(t => isTaskOverdue(t)) && (
+                                <span className="px-2 py-1 bg-red-100 text-red-700 rounded-full animate-pulse">
+                                  🚨 {filteredTasks.filter(t => isTaskOverdue(t)).length} overdue
+                                </span>
+                              )}
+                              {completedThisWeek > 0 && (
+                                <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full">
+                                  🏁 {completedThisWeek} completed in the last 7 days
+                                </span>
+                              )}
+                              {(trackedTotal > 0 || estimatedTotal > 0) && (
+                                <span
+                                  className={`px-2 py-1 rounded-full ${
+                                    estimatedTotal > 0 && trackedTotal > estimatedTotal
+                                      ? 'bg-red-100 text-red-700'
+                                      : 'bg-muted text-muted-foreground'
+                                  }`}
+                                >
+                                  ⏱ {formatDuration(trackedTotal)} tracked
+                                  {estimatedTotal > 0 && ` / ${formatDuration(estimatedTotal)} estimated`}
+                                </span>
+                              )}
+                              {!isTrash && !isArchive && viewTasks.some(isTaskDone) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={handleArchiveCompleted}
+                                  className="h-6 px-2 text-xs"
+                                >
+                                  <Archive className="w-3 h-3 mr-1" />
+                                  Archive completed
+                                </Button>
+                              )}
                             </div>
-                          ))}
-                        </div>
+                            
+                            {/* Task Grid */}
+                            <ReorderableTaskList
+                              tasks={filteredTasks}
+                              enabled={sort.key === 'manual'}
+                              onMove={handleMoveTask}
+                              renderTask={(task) => (
+                                <TaskCard 
+                                  {...task}
+                                  onEdit={handleEditTask}
+                                  onDelete={handleDeleteTask}
+                                  onSetArchived={handleSetArchived}
+                                  onRestore={handleRestoreTask}
+                                  onToggleComplete={handleToggleComplete}
+                                  onChangeStatus={handleChangeStatus}
+                                  onToggleChecklistItem={handleToggleChecklistItem}
+                                  onToggleDescriptionItem={handleToggleDescriptionItem}
+                                  activeTimer={activeTimer}
+                                  onToggleTimer={handleToggleTimer}
+                                  onChangeComments={handleChangeComments}
+                                  describeHistoryValue={describeHistoryValue}
+                                  onRevertChange={handleRevertChange}
+                                  tags={tags}
+                                  statuses={statuses}
+                                  priorities={priorities}
+                                  fieldDefinitions={customFields}
+                                  people={people}
+                                  currentAuthorId={getAuthorId(currentPersonId)}
+                                  openBlockers={getOpenBlockers(task, tasks)}
+                                  allTasks={tasks}
+                                  backlinks={backlinkMap[task.id] || []}
+                                  onOpenTask={handleOpenTask}
+                                />
+                              )}
+                            />
+                          </div>
+                        )}
                       </div>
-                    )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            </div>
 
-            {/* Instructions Footer */}
-            <div className="mt-12 pt-8 border-t border-border">
-              <Card className="bg-muted/50">
-                <CardContent className="pt-6">
-                  <h3 className="font-semibold mb-3">Getting Started Instructions:</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <h4 className="font-medium mb-2">1. Create TypeScript Interfaces</h4>
-                      <p className="text-muted-foreground">Define the Task interface with proper types</p>
-                    </div>
-                    <div>
-                      <h4 className="font-medium mb-2">2. Build TaskCard Component</h4>
-                      <p className="text-muted-foreground">Display task info with edit/delete actions</p>
-                    </div>
-                    <div>
-                      <h4 className="font-medium mb-2">3. Implement State Management</h4>
-                      <p className="text-muted-foreground">CRUD operations with localStorage persistence</p>
-                    </div>
-                    <div>
-                      <h4 className="font-medium mb-2">4. Create Task Form</h4>
-                      <p className="text-muted-foreground">Validated form with error handling</p>
-                    </div>
-                  </div>
-                  <div className="mt-4 p-4 bg-primary/10 rounded-lg">
-                    <p className="text-sm">
-                      <strong>💡 Pro tip:</strong> Focus on functionality first, then polish the styling.
-                      Use the design system tokens (priority.high, priority.medium, priority.low) for consistent colors.
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-          </>
-        )}
-      </div>
-    </div>
+                {/* Instructions Footer */}
+                <div className="mt-12 pt-8 border-t border-border">
+                  <Card className="bg-muted/50">
+                    <CardContent className="pt-6">
+                      <h3 className="font-semibold mb-3">Getting Started Instructions:</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <h4 className="font-medium mb-2">1. Create TypeScript Interfaces</h4>
+                          <p className="text-muted-foreground">Define the Task interface with proper types</p>
+                        </div>
+                        <div>
+                          <h4 className="font-medium mb-2">2. Build TaskCard Component</h4>
+                          <p className="text-muted-foreground">Display task info with edit/delete actions</p>
+                        </div>
+                        <div>
+                          <h4 className="font-medium mb-2">3. Implement State Management</h4>
+                          <p className="text-muted-foreground">CRUD operations with localStorage persistence</p>
+                        </div>
+                        <div>
+                          <h4 className="font-medium mb-2">4. Create Task Form</h4>
+                          <p className="text-muted-foreground">Validated form with error handling</p>
+                        </div>
+                      </div>
+                      <div className="mt-4 p-4 bg-primary/10 rounded-lg">
+                        <p className="text-sm">
+                          <strong>💡 Pro tip:</strong> Focus on functionality first, then polish the styling.
+                          Use the design system tokens (priority.high, priority.medium, priority.low) for consistent colors.
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </SidebarInset>
+      <BlockedCompletionDialog
+        task={pendingCompletionTask}
+        openBlockers={pendingCompletionTask ? getOpenBlockers(pendingCompletionTask, tasks) : []}
+        onConfirm={() => {
+          applyStatusChange(pendingCompletionId, DONE_STATUS);
+          setPendingCompletionId(null);
+        }}
+        onCancel={() => setPendingCompletionId(null)}
+      />
+    </SidebarProvider>
   );
 };
 
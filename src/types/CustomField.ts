@@ -0,0 +1,14 @@
+export type CustomFieldType = 'text' | 'number' | 'single-select' | 'multi-select' | 'date' | 'checkbox';
+
+// A user-defined field; tasks store values keyed by the field id, so renames are free
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+}
+
+// Dates are local day keys ("YYYY-MM-DD"), multi-selects a list of option names
+export type CustomFieldValue = string | number | boolean | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
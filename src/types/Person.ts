@@ -0,0 +1,6 @@
+// Someone in the local people directory; tasks reference people by id
+export interface Person {
+  id: string;
+  name: string;
+  color: string;
+}
@@ -0,0 +1,7 @@
+// One step of the workspace's priority scale, listed from most to least urgent. Colors are
+// HSL design tokens ("H S% L%"); levels without one use the --priority-<id> token from index.css
+export interface PriorityLevel {
+  id: string;
+  label: string;
+  color?: string;
+}
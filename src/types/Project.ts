@@ -0,0 +1,6 @@
+// Named list of tasks; tasks without a projectId live in the Inbox
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+}
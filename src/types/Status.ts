@@ -0,0 +1,7 @@
+// A step in the task workflow; only the built-in "done" status counts as completed
+export interface StatusDefinition {
+  id: string;
+  label: string;
+  color: string;
+  isBuiltIn?: boolean;
+}
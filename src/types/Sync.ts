@@ -0,0 +1,23 @@
+import { Task } from "@/types/Task";
+
+// Optional sync with a server speaking the REST API of server/index.js
+export interface SyncSettings {
+  enabled: boolean;
+  // Base of the API, e.g. http://localhost:3001/api
+  url: string;
+}
+
+// A local change waiting to reach the server. Only the latest change per task is kept, along with
+// the version the task had before the first of them, so a conflict can be merged field by field
+export type SyncOperation = {
+  id: string;
+  taskId: string;
+  // Shown in the list of failed changes, which can include tasks deleted here
+  title: string;
+  queuedAt: number;
+  // Why the server refused the change; failed changes wait to be retried or discarded
+  error?: string;
+} & (
+  | { type: 'put'; task: Task; base?: Task }
+  | { type: 'delete' }
+);
@@ -0,0 +1,6 @@
+// Workspace-wide label that tasks reference by id
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
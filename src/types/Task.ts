@@ -1,19 +1,126 @@
+import { CustomFieldValues } from "@/types/CustomField";
+
 // Task interface with all required properties
 export interface Task {
   id: string;
   title: string;
   description: string;
   priority: Priority;
-  isCompleted: boolean;
-  dueDate?: number;
+  status: TaskStatus;
+  dueDate?: string;
+  dueTime?: string;
+  startDate?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  // Position in manually ordered lists; tasks without one sort by createdAt
+  order?: number;
+  checklist?: ChecklistItem[];
+  tagIds?: string[];
+  projectId?: string;
+  repeat?: RepeatRule;
+  blockedBy?: string[];
+  estimateMinutes?: number;
+  timeEntries?: TimeEntry[];
+  comments?: TaskComment[];
+  history?: TaskChange[];
+  customFields?: CustomFieldValues;
+  attachments?: AttachmentRef[];
+  assigneeIds?: string[];
+  archivedAt?: number;
+  deletedAt?: number;
+}
+
+// Id of a level on the workspace priority scale; 'high', 'medium' and 'low' are the defaults
+export type Priority = string;
+
+// Built-in workflow states; user-defined states use their own generated ids
+export type BuiltInStatus = 'todo' | 'in-progress' | 'blocked' | 'done';
+export type TaskStatus = BuiltInStatus | string;
+
+// One finished stretch of tracked work, in epoch milliseconds
+export interface TimeEntry {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+}
+
+// A note in the task's discussion thread; only the author may edit or delete it
+export interface TaskComment {
+  id: string;
+  authorId: string;
+  text: string;
   createdAt: number;
+  editedAt?: number;
+}
+
+// One field's value before and after an edit, recorded automatically on every change
+export interface TaskChange {
+  id: string;
+  field: keyof Task;
+  from?: unknown;
+  to?: unknown;
+  changedAt: number;
+  authorId: string;
+}
+
+// Pointer to a file kept in IndexedDB; the file data itself never goes into localStorage
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  addedAt: number;
+}
+
+// The tracker that is currently running; only one task can be tracked at a time
+export interface ActiveTimer {
+  taskId: string;
+  startedAt: number;
+}
+
+// Ordered sub-steps of a task, stored inline with the task
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  isCompleted: boolean;
 }
 
-export type Priority = 'high' | 'medium' | 'low';
+export type RepeatFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export type RepeatEnd =
+  | { type: 'never' }
+  | { type: 'count'; count: number }
+  | { type: 'date'; date: number };
+
+// Repeat rule carried by the latest occurrence of a recurring task
+export interface RepeatRule {
+  frequency: RepeatFrequency;
+  interval: number;
+  weekDays?: number[];
+  monthlyBy?: 'date' | 'weekday';
+  monthDay?: number;
+  end: RepeatEnd;
+  occurrence: number;
+}
 
 export type TaskFormData = {
   title: string;
   description?: string;
   priority: Priority;
   dueDate?: string;
-};
\ No newline at end of file
+  dueTime: string;
+  startDate: string;
+  checklist: ChecklistItem[];
+  tagIds: string[];
+  projectId: string;
+  repeat: RepeatRule | null;
+  blockedBy: string[];
+  estimate: string;
+  estimateUnit: EstimateUnit;
+  customFields: CustomFieldValues;
+  attachments: AttachmentRef[];
+  assigneeIds: string[];
+};
+
+export type EstimateUnit = 'minutes' | 'hours';